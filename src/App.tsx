@@ -1,12 +1,20 @@
 import { useState } from 'react'
 import { useOFTClient } from './hooks/useOFTClient'
+import { useReadOnlyClient } from './hooks/useReadOnlyClient'
 import { ConnectionStatus } from './components/ConnectionStatus'
 import { TransferForm } from './components/TransferForm'
 import { TransactionResult } from './components/TransactionResult'
+import { OptionsInspector } from './components/OptionsInspector'
+import { TransactionInspector } from './components/TransactionInspector'
+import { AllowanceManager } from './components/AllowanceManager'
+import { NETWORK_NAMES_BY_EID } from './lib'
 import type { SendResult } from './lib'
 
 function App() {
     const oftClient = useOFTClient()
+    const readOnly = useReadOnlyClient()
+    // Fall back to a read-only client so quotes and adapter checks work without a wallet
+    const activeClient = oftClient.isConnected && oftClient.client ? oftClient.client : readOnly.client
     const [transactionResult, setTransactionResult] = useState<SendResult | null>(null)
     const [error, setError] = useState<string | null>(null)
 
@@ -51,16 +59,43 @@ function App() {
                     </div>
                 )}
 
-                {oftClient.isConnected && oftClient.client && (
+                {!oftClient.isConnected && (
+                    <div className="read-only-panel">
+                        <label htmlFor="readOnlyEid">
+                            <strong>Read-only mode:</strong> price transfers and inspect adapters on
+                        </label>
+                        <select
+                            id="readOnlyEid"
+                            value={readOnly.eid}
+                            onChange={(e) => readOnly.setEid(parseInt(e.target.value))}
+                        >
+                            {Object.entries(NETWORK_NAMES_BY_EID).map(([eid, name]) => (
+                                <option key={eid} value={eid}>{name} ({eid})</option>
+                            ))}
+                        </select>
+                        {readOnly.error && <small className="read-only-error">{readOnly.error}</small>}
+                    </div>
+                )}
+
+                {activeClient && (
                     <TransferForm
-                        client={oftClient.client}
+                        client={activeClient}
                         onTransfer={handleTransfer}
                         onError={handleError}
                     />
                 )}
 
+                {oftClient.isConnected && oftClient.client && (
+                    <AllowanceManager client={oftClient.client} />
+                )}
+
+                <OptionsInspector />
+
+                {activeClient && <TransactionInspector client={activeClient} />}
+
                 <TransactionResult
                     result={transactionResult}
+                    client={activeClient}
                     onClose={handleCloseResult}
                 />
             </main>
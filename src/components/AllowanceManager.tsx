@@ -0,0 +1,143 @@
+import { useCallback, useEffect, useState } from 'react'
+import { ethers } from 'ethers'
+import { OFTClient, formatAllowance, getNetworkName, listDeployments } from '../lib'
+import type { AdapterAllowance } from '../lib'
+import { useTokenRegistry } from '../hooks/useTokenRegistry'
+
+interface AllowanceManagerProps {
+    client: OFTClient
+}
+
+/**
+ * Allowances of the connected account to every registered adapter on the current chain, with set and revoke
+ */
+export function AllowanceManager({ client }: AllowanceManagerProps) {
+    const { registry } = useTokenRegistry()
+    const [srcEid, setSrcEid] = useState<number | null>(null)
+    const [allowances, setAllowances] = useState<AdapterAllowance[]>([])
+    const [loading, setLoading] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+    // Adapter address with a transaction in flight
+    const [pending, setPending] = useState<string | null>(null)
+    const [inputs, setInputs] = useState<Record<string, string>>({})
+
+    const refresh = useCallback(async () => {
+        if (!registry) return
+        setLoading(true)
+        setError(null)
+        try {
+            const eid = await client.getCurrentSrcEid()
+            setSrcEid(eid)
+            setAllowances(await client.getAdapterAllowances(listDeployments(registry, eid)))
+        } catch (err) {
+            console.error('Failed to load allowances:', err)
+            setError(err instanceof Error ? err.message : 'Failed to load allowances')
+        } finally {
+            setLoading(false)
+        }
+    }, [client, registry])
+
+    useEffect(() => {
+        refresh()
+    }, [refresh])
+
+    const updateAllowance = async (entry: AdapterAllowance, amountLD: bigint) => {
+        setPending(entry.deployment.address)
+        setError(null)
+        try {
+            if (amountLD === 0n) {
+                await client.revokeAllowance(entry.token, entry.deployment.address)
+            } else {
+                await client.setAllowance(entry.token, entry.deployment.address, amountLD)
+            }
+            await refresh()
+        } catch (err) {
+            console.error('Failed to update allowance:', err)
+            setError(err instanceof Error ? err.message : 'Failed to update allowance')
+        } finally {
+            setPending(null)
+        }
+    }
+
+    const handleSet = (entry: AdapterAllowance) => {
+        const value = (inputs[entry.deployment.address] ?? '').trim()
+        let amountLD: bigint
+        try {
+            amountLD = ethers.parseUnits(value, entry.deployment.decimals)
+        } catch {
+            setError(`Invalid allowance "${value}" for ${entry.deployment.symbol}`)
+            return
+        }
+        updateAllowance(entry, amountLD)
+    }
+
+    return (
+        <div className="allowance-manager">
+            <h2>Adapter Allowances</h2>
+            <p className="field-help">
+                <small>
+                    What the adapters on {srcEid ? getNetworkName(srcEid) : 'this chain'} may pull from your wallet.
+                    Revoking sets the allowance to zero.
+                </small>
+            </p>
+
+            {error && (
+                <div className="validation-error" style={{ color: '#d32f2f' }}>⚠️ {error}</div>
+            )}
+
+            {loading && allowances.length === 0 ? (
+                <p>Loading allowances...</p>
+            ) : allowances.length === 0 ? (
+                <p>No registered adapters on this chain.</p>
+            ) : (
+                <table className="options-table">
+                    <thead>
+                        <tr>
+                            <th>Token</th>
+                            <th>Adapter</th>
+                            <th>Allowance</th>
+                            <th>Actions</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {allowances.map(entry => {
+                            const address = entry.deployment.address
+                            const busy = pending === address
+                            return (
+                                <tr key={address}>
+                                    <td>{entry.deployment.symbol}</td>
+                                    <td><code>{address.slice(0, 6)}…{address.slice(-4)}</code></td>
+                                    <td>{formatAllowance(entry.allowance, entry.deployment.decimals)}</td>
+                                    <td>
+                                        <div className="allowance-actions">
+                                            <input
+                                                type="text"
+                                                value={inputs[address] ?? ''}
+                                                onChange={(e) => setInputs(prev => ({ ...prev, [address]: e.target.value }))}
+                                                placeholder="Amount"
+                                                disabled={busy}
+                                            />
+                                            <button type="button" className="btn btn-small" onClick={() => handleSet(entry)} disabled={busy || !inputs[address]}>
+                                                Set
+                                            </button>
+                                            <button type="button" className="btn btn-small" onClick={() => updateAllowance(entry, ethers.MaxUint256)} disabled={busy || entry.unlimited}>
+                                                Unlimited
+                                            </button>
+                                            <button type="button" className="btn btn-small" onClick={() => updateAllowance(entry, 0n)} disabled={busy || entry.allowance === 0n}>
+                                                {busy ? 'Confirming...' : 'Revoke'}
+                                            </button>
+                                        </div>
+                                    </td>
+                                </tr>
+                            )
+                        })}
+                    </tbody>
+                </table>
+            )}
+
+            <button type="button" className="btn btn-secondary" onClick={refresh} disabled={loading}>
+                {loading ? 'Refreshing...' : 'Refresh'}
+            </button>
+        </div>
+    )
+}
@@ -0,0 +1,191 @@
+import { useState } from 'react'
+import { ethers } from 'ethers'
+import { COMPOSER_PRESETS, describeOFTComposeMsg, encodeComposePayload, encodeOFTComposeMsg, parseComposerFragment, OFT_COMPOSE_INDEX } from '../lib'
+import type { OFTComposeMsg } from '../lib'
+
+interface ComposeMessageBuilderProps {
+    // Encoded payload currently used for the transfer, empty when not composing
+    composeMsg: string
+    onChange: (composeMsg: string) => void
+    srcEid: number
+    // Expected amount on the destination, from the latest quote when there is one
+    amountLD?: bigint
+    // Sender as the composer sees it, from the latest quote when there is one
+    composeFrom?: string
+    // Whether the extra options already carry lzCompose gas for the compose index
+    hasComposeOption: boolean
+    onAddComposeOption: () => void
+}
+
+/**
+ * Build a SEND_AND_CALL compose payload from a composer fragment and preview what lzCompose receives
+ */
+export function ComposeMessageBuilder({ composeMsg, onChange, srcEid, amountLD, composeFrom, hasComposeOption, onAddComposeOption }: ComposeMessageBuilderProps) {
+    const [enabled, setEnabled] = useState(false)
+    const [presetId, setPresetId] = useState(COMPOSER_PRESETS[0].id)
+    const [fragment, setFragment] = useState(COMPOSER_PRESETS[0].fragment)
+    const [values, setValues] = useState<string[]>([])
+
+    const encode = (nextFragment: string, nextValues: string[]): { payload: string } | { error: string } => {
+        try {
+            const params = parseComposerFragment(nextFragment)
+            return { payload: encodeComposePayload(nextFragment, params.map((_, index) => nextValues[index] ?? '')) }
+        } catch (error) {
+            return { error: error instanceof Error ? error.message : String(error) }
+        }
+    }
+
+    const update = (nextEnabled: boolean, nextFragment: string, nextValues: string[]) => {
+        setEnabled(nextEnabled)
+        setFragment(nextFragment)
+        setValues(nextValues)
+        const result = encode(nextFragment, nextValues)
+        onChange(nextEnabled && 'payload' in result ? result.payload : '')
+    }
+
+    const handlePresetChange = (id: string) => {
+        setPresetId(id)
+        const preset = COMPOSER_PRESETS.find(p => p.id === id)
+        update(enabled, preset ? preset.fragment : fragment, [])
+    }
+
+    let params: ReturnType<typeof parseComposerFragment> = []
+    try {
+        params = parseComposerFragment(fragment)
+    } catch {
+        // Reported through the encode result below
+    }
+    const result = encode(fragment, values)
+    const preset = COMPOSER_PRESETS.find(p => p.id === presetId)
+    // Placeholders stand in for what is only known after quoting and sending
+    const preview: OFTComposeMsg | null = 'payload' in result ? {
+        nonce: 0n,
+        srcEid,
+        amountLD: amountLD ?? 0n,
+        composeFrom: composeFrom ?? ethers.ZeroAddress,
+        composeMsg: result.payload
+    } : null
+
+    return (
+        <div className="compose-builder">
+            <label htmlFor="composeEnabled" style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                <input
+                    type="checkbox"
+                    id="composeEnabled"
+                    checked={enabled}
+                    onChange={(e) => update(e.target.checked, fragment, values)}
+                    style={{ width: 'auto' }}
+                />
+                Send and call a composer on the destination (SEND_AND_CALL)
+            </label>
+
+            {enabled && (
+                <>
+                    <div className="form-group">
+                        <label htmlFor="composerPreset">Composer:</label>
+                        <select id="composerPreset" value={presetId} onChange={(e) => handlePresetChange(e.target.value)}>
+                            {COMPOSER_PRESETS.map(p => (
+                                <option key={p.id} value={p.id}>{p.name}</option>
+                            ))}
+                            <option value="">Custom fragment</option>
+                        </select>
+                        {preset && (
+                            <div className="field-help">
+                                <small>{preset.description}</small>
+                            </div>
+                        )}
+                    </div>
+
+                    <div className="form-group">
+                        <label htmlFor="composerFragment">Payload fragment:</label>
+                        <input
+                            type="text"
+                            id="composerFragment"
+                            value={fragment}
+                            onChange={(e) => {
+                                setPresetId('')
+                                update(enabled, e.target.value, values)
+                            }}
+                            placeholder="(address receiver, uint256 minAmountOut)"
+                            spellCheck={false}
+                        />
+                        <div className="field-help">
+                            <small>A parameter list or function fragment; the payload is abi.encode of its parameters, without a selector.</small>
+                        </div>
+                    </div>
+
+                    {params.map((param, index) => (
+                        <div className="form-group" key={`${fragment}-${index}`}>
+                            <label htmlFor={`composeParam${index}`}>
+                                {param.name || `#${index}`} <code>{param.type}</code>
+                            </label>
+                            <input
+                                type="text"
+                                id={`composeParam${index}`}
+                                value={values[index] ?? ''}
+                                onChange={(e) => {
+                                    const next = params.map((_, i) => values[i] ?? '')
+                                    next[index] = e.target.value
+                                    update(enabled, fragment, next)
+                                }}
+                                placeholder={param.baseType === 'array' || param.baseType === 'tuple' ? 'JSON, e.g. ["0x…", "1"]' : param.type}
+                                spellCheck={false}
+                            />
+                        </div>
+                    ))}
+
+                    {'error' in result && (
+                        <div className="validation-error" style={{ color: '#d32f2f' }}>⚠️ {result.error}</div>
+                    )}
+                    {preview && (
+                        <div className="options-preview">
+                            <strong>What lzCompose receives (OFTComposeMsgCodec):</strong>
+                            <table className="options-table">
+                                <thead>
+                                    <tr>
+                                        <th>Field</th>
+                                        <th>Bytes</th>
+                                        <th>Value</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {describeOFTComposeMsg(preview).map(field => (
+                                        <tr key={field.name}>
+                                            <td>{field.name}</td>
+                                            <td>{field.size === null ? `${field.offset}…` : `${field.offset}–${field.offset + field.size - 1}`}</td>
+                                            <td><code>{field.value}</code></td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                            <small>
+                                The nonce is assigned at send time.
+                                {amountLD === undefined && ' amountLD is filled in from the quote.'}
+                                {composeFrom === undefined && ' composeFrom is your address, shown once a quote is made with a connected wallet.'}
+                            </small>
+                            <code>
+                                {encodeOFTComposeMsg(preview)}
+                            </code>
+                        </div>
+                    )}
+
+                    {composeMsg && !hasComposeOption && (
+                        <div className="validation-warning" style={{
+                            color: '#f57c00',
+                            padding: '0.75rem',
+                            background: '#fff3e0',
+                            border: '1px solid #ff9800',
+                            borderRadius: '4px'
+                        }}>
+                            <strong>⚠️ No lzCompose gas:</strong> unless the OApp enforces it, the compose call needs an lzCompose
+                            option at index {OFT_COMPOSE_INDEX}; the quote will fail without one.{' '}
+                            <button type="button" className="btn btn-small" onClick={onAddComposeOption}>
+                                Add lzCompose option
+                            </button>
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    )
+}
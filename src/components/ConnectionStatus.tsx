@@ -5,7 +5,7 @@ interface ConnectionStatusProps {
 }
 
 export function ConnectionStatus({ oftClient }: ConnectionStatusProps) {
-    const { isConnected, loading, error, address, chainId, connect, disconnect } = oftClient
+    const { isConnected, loading, error, address, chainId, wallets, selectedWallet, connect, disconnect } = oftClient
 
     const getNetworkName = (chainId: number | null) => {
         if (!chainId) return 'Unknown'
@@ -34,7 +34,7 @@ export function ConnectionStatus({ oftClient }: ConnectionStatusProps) {
         return (
             <div className="connection-status loading">
                 <div className="spinner"></div>
-                <span>Connecting to MetaMask...</span>
+                <span>Connecting to {selectedWallet?.info.name ?? 'wallet'}...</span>
             </div>
         )
     }
@@ -45,7 +45,7 @@ export function ConnectionStatus({ oftClient }: ConnectionStatusProps) {
                 <div className="error-message">
                     <strong>Connection Error:</strong> {error}
                 </div>
-                <button onClick={connect} className="btn btn-primary">
+                <button onClick={() => connect()} className="btn btn-primary">
                     Try Again
                 </button>
             </div>
@@ -57,11 +57,24 @@ export function ConnectionStatus({ oftClient }: ConnectionStatusProps) {
             <div className="connection-status disconnected">
                 <div className="status-info">
                     <strong>Not Connected</strong>
-                    <p>Connect your MetaMask wallet to start transferring tokens</p>
+                    <p>
+                        {wallets.length > 0
+                            ? 'Choose a wallet to start transferring tokens'
+                            : 'No browser wallet detected. Install MetaMask, Rabby, Coinbase Wallet or Frame to continue'}
+                    </p>
+                </div>
+                <div className="wallet-picker">
+                    {wallets.map(wallet => (
+                        <button
+                            key={wallet.info.uuid}
+                            onClick={() => connect(wallet)}
+                            className={`btn ${wallet.info.uuid === selectedWallet?.info.uuid ? 'btn-primary' : 'btn-secondary'} wallet-option`}
+                        >
+                            {wallet.info.icon && <img src={wallet.info.icon} alt="" className="wallet-icon" />}
+                            {wallet.info.name}
+                        </button>
+                    ))}
                 </div>
-                <button onClick={connect} className="btn btn-primary">
-                    Connect MetaMask
-                </button>
             </div>
         )
     }
@@ -71,6 +84,7 @@ export function ConnectionStatus({ oftClient }: ConnectionStatusProps) {
             <div className="status-info">
                 <div className="status-item">
                     <strong>Connected:</strong> {formatAddress(address)}
+                    {selectedWallet && <> via {selectedWallet.info.name}</>}
                 </div>
                 <div className="status-item">
                     <strong>Network:</strong> {getNetworkName(chainId)}
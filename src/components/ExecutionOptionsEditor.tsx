@@ -0,0 +1,175 @@
+import { buildExtraOptions, decodeOptions, describeOption, draftToSendArgs, getRecipientPlaceholder, parseOptionUint, MAX_UINT128 } from '../lib'
+import type { ExecutorOptionsDraft } from '../lib'
+
+interface ExecutionOptionsEditorProps {
+    draft: ExecutorOptionsDraft
+    onChange: (draft: ExecutorOptionsDraft) => void
+    dstEid: number
+    includeSolanaRent: boolean
+}
+
+/**
+ * Editor for the extra executor options sent with a transfer, with a live hex preview
+ */
+export function ExecutionOptionsEditor({ draft, onChange, dstEid, includeSolanaRent }: ExecutionOptionsEditorProps) {
+    const fieldError = (value: string, label: string, max = MAX_UINT128, required = true): string | null => {
+        try {
+            parseOptionUint(value, label, max, required)
+            return null
+        } catch (error) {
+            return error instanceof Error ? error.message : String(error)
+        }
+    }
+
+    const preview = (): { hex: string; descriptions: string[] } | { error: string } => {
+        try {
+            const hex = buildExtraOptions({ dstEid, includeSolanaRent, ...draftToSendArgs(draft) })
+            return { hex, descriptions: decodeOptions(hex).entries.map(describeOption) }
+        } catch (error) {
+            return { error: error instanceof Error ? error.message : String(error) }
+        }
+    }
+    const result = preview()
+
+    const updateRow = <K extends 'lzReceive' | 'compose' | 'nativeDrops'>(key: K, index: number, patch: Partial<ExecutorOptionsDraft[K][number]>) => {
+        onChange({ ...draft, [key]: draft[key].map((row, i) => (i === index ? { ...row, ...patch } : row)) })
+    }
+
+    const removeRow = (key: 'lzReceive' | 'compose' | 'nativeDrops', index: number) => {
+        onChange({ ...draft, [key]: draft[key].filter((_, i) => i !== index) })
+    }
+
+    const renderError = (error: string | null) => error && <small className="options-field-error">{error}</small>
+
+    return (
+        <div className="options-editor">
+            <div className="options-editor-section">
+                <strong>lzReceive</strong>
+                {draft.lzReceive.map((row, index) => (
+                    <div className="options-editor-row" key={index}>
+                        <input
+                            type="text"
+                            value={row.gas}
+                            onChange={(e) => updateRow('lzReceive', index, { gas: e.target.value })}
+                            placeholder="Gas, e.g. 200000"
+                        />
+                        <input
+                            type="text"
+                            value={row.value}
+                            onChange={(e) => updateRow('lzReceive', index, { value: e.target.value })}
+                            placeholder="Value (wei), optional"
+                        />
+                        <button type="button" className="btn btn-small" onClick={() => removeRow('lzReceive', index)}>Remove</button>
+                        {renderError(fieldError(row.gas, 'Gas') ?? fieldError(row.value, 'Value', MAX_UINT128, false))}
+                    </div>
+                ))}
+                <button
+                    type="button"
+                    className="btn btn-small"
+                    onClick={() => onChange({ ...draft, lzReceive: [...draft.lzReceive, { gas: '', value: '' }] })}
+                >
+                    + Add lzReceive
+                </button>
+            </div>
+
+            <div className="options-editor-section">
+                <strong>lzCompose</strong>
+                {draft.compose.map((row, index) => (
+                    <div className="options-editor-row" key={index}>
+                        <input
+                            type="text"
+                            value={row.index}
+                            onChange={(e) => updateRow('compose', index, { index: e.target.value })}
+                            placeholder="Index"
+                            style={{ maxWidth: '90px' }}
+                        />
+                        <input
+                            type="text"
+                            value={row.gas}
+                            onChange={(e) => updateRow('compose', index, { gas: e.target.value })}
+                            placeholder="Gas"
+                        />
+                        <input
+                            type="text"
+                            value={row.value}
+                            onChange={(e) => updateRow('compose', index, { value: e.target.value })}
+                            placeholder="Value (wei), optional"
+                        />
+                        <button type="button" className="btn btn-small" onClick={() => removeRow('compose', index)}>Remove</button>
+                        {renderError(
+                            fieldError(row.index, 'Index', 65535n) ??
+                            fieldError(row.gas, 'Gas') ??
+                            fieldError(row.value, 'Value', MAX_UINT128, false)
+                        )}
+                    </div>
+                ))}
+                <button
+                    type="button"
+                    className="btn btn-small"
+                    onClick={() => onChange({ ...draft, compose: [...draft.compose, { index: String(draft.compose.length), gas: '', value: '' }] })}
+                >
+                    + Add lzCompose
+                </button>
+            </div>
+
+            <div className="options-editor-section">
+                <strong>Native Drop</strong>
+                {draft.nativeDrops.map((row, index) => (
+                    <div className="options-editor-row" key={index}>
+                        <input
+                            type="text"
+                            value={row.amount}
+                            onChange={(e) => updateRow('nativeDrops', index, { amount: e.target.value })}
+                            placeholder="Amount (wei)"
+                            style={{ maxWidth: '200px' }}
+                        />
+                        <input
+                            type="text"
+                            value={row.recipient}
+                            onChange={(e) => updateRow('nativeDrops', index, { recipient: e.target.value })}
+                            placeholder={getRecipientPlaceholder(dstEid)}
+                        />
+                        <button type="button" className="btn btn-small" onClick={() => removeRow('nativeDrops', index)}>Remove</button>
+                        {renderError(fieldError(row.amount, 'Amount'))}
+                    </div>
+                ))}
+                <button
+                    type="button"
+                    className="btn btn-small"
+                    onClick={() => onChange({ ...draft, nativeDrops: [...draft.nativeDrops, { amount: '', recipient: '' }] })}
+                >
+                    + Add native drop
+                </button>
+            </div>
+
+            <label htmlFor="orderedExecution" style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                <input
+                    type="checkbox"
+                    id="orderedExecution"
+                    checked={draft.orderedExecution}
+                    onChange={(e) => onChange({ ...draft, orderedExecution: e.target.checked })}
+                    style={{ width: 'auto' }}
+                />
+                Ordered execution
+            </label>
+
+            <div className="options-preview">
+                <strong>Extra options (hex):</strong>
+                {'error' in result ? (
+                    <div className="validation-error" style={{ color: '#d32f2f' }}>⚠️ {result.error}</div>
+                ) : (
+                    <>
+                        <code>{result.hex}</code>
+                        {result.descriptions.length === 0 ? (
+                            <small>No extra options, only the OApp's enforced options apply.</small>
+                        ) : (
+                            <ul>
+                                {result.descriptions.map((description, index) => <li key={index}>{description}</li>)}
+                            </ul>
+                        )}
+                    </>
+                )}
+            </div>
+        </div>
+    )
+}
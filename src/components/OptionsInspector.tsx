@@ -0,0 +1,97 @@
+import { useState } from 'react'
+import { decodeOptions, describeOption, summarizeExecutorOptions } from '../lib'
+import type { DecodedOptions, ExecutorOptionsSummary } from '../lib'
+
+/**
+ * Paste any LayerZero options hex and see every executor and DVN option it contains
+ */
+export function OptionsInspector() {
+    const [optionsHex, setOptionsHex] = useState('')
+
+    const inspect = (): { decoded: DecodedOptions; summary: ExecutorOptionsSummary } | { error: string } | null => {
+        const value = optionsHex.trim()
+        if (!value) return null
+        try {
+            const hex = value.startsWith('0x') ? value : `0x${value}`
+            return { decoded: decodeOptions(hex), summary: summarizeExecutorOptions(hex) }
+        } catch (error) {
+            return { error: error instanceof Error ? error.message : String(error) }
+        }
+    }
+    const result = inspect()
+
+    return (
+        <div className="options-inspector">
+            <h2>Options Inspector</h2>
+            <div className="form-group">
+                <label htmlFor="optionsHex">Options (hex):</label>
+                <textarea
+                    id="optionsHex"
+                    value={optionsHex}
+                    onChange={(e) => setOptionsHex(e.target.value)}
+                    placeholder="0x0003010011010000000000000000000000000000ea60"
+                    rows={3}
+                    spellCheck={false}
+                />
+                <div className="field-help">
+                    <small>Accepts Type 3 options as well as legacy Type 1 and Type 2 adapter params.</small>
+                </div>
+            </div>
+
+            {result && 'error' in result && (
+                <div className="validation-error" style={{ color: '#d32f2f' }}>
+                    <strong>⚠️ Could not decode:</strong> {result.error}
+                </div>
+            )}
+
+            {result && 'decoded' in result && (
+                <>
+                    <div className="quote-item">
+                        <span>Options Type:</span>
+                        <span>{result.decoded.optionsType}</span>
+                    </div>
+                    {result.decoded.entries.length === 0 ? (
+                        <p>No options set</p>
+                    ) : (
+                        <table className="options-table">
+                            <thead>
+                                <tr>
+                                    <th>#</th>
+                                    <th>Worker</th>
+                                    <th>Option</th>
+                                    <th>Encoded</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {result.decoded.entries.map((entry, index) => (
+                                    <tr key={index}>
+                                        <td>{index}</td>
+                                        <td>{entry.worker === 'dvn' ? `DVN #${entry.verifierIndex}` : 'Executor'}</td>
+                                        <td>{describeOption(entry)}</td>
+                                        <td><code>{entry.encoded}</code></td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                    <div className="quote-item">
+                        <span>Total lzReceive Gas / Value:</span>
+                        <span>{result.summary.lzReceiveGas.toString()} / {result.summary.lzReceiveValue.toString()}</span>
+                    </div>
+                    {result.summary.compose.map(compose => (
+                        <div className="quote-item" key={compose.index}>
+                            <span>lzCompose #{compose.index} Gas / Value:</span>
+                            <span>{compose.gas.toString()} / {compose.value.toString()}</span>
+                        </div>
+                    ))}
+                    {result.summary.totalNativeDrop > 0n && (
+                        <div className="quote-item">
+                            <span>Total Native Drop:</span>
+                            <span>{result.summary.totalNativeDrop.toString()}</span>
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,160 @@
+import { ethers } from 'ethers'
+import { describeOption, getNetworkName } from '../lib'
+import type { SendPreview } from '../lib'
+
+interface SendReviewProps {
+    preview: SendPreview
+    symbol?: string
+    onConfirm: () => void
+    onCancel: () => void
+}
+
+const shorten = (hex: string) => hex.length > 20 ? `${hex.slice(0, 10)}…${hex.slice(-8)}` : hex
+
+/**
+ * The decoded send transaction, shown for confirmation before the wallet opens
+ */
+export function SendReview({ preview, symbol, onConfirm, onCancel }: SendReviewProps) {
+    const { call, decoded, options } = preview
+    const param = decoded.sendParam
+    const formatAmount = (amountLD: bigint) => `${ethers.formatUnits(amountLD, preview.decimals)} ${symbol ?? ''}`.trim()
+
+    return (
+        <div className="quote-display send-review">
+            <h3>Review Transfer</h3>
+
+            <h4>Transaction</h4>
+            <div className="quote-item">
+                <span>From:</span>
+                <span><code>{call.from}</code></span>
+            </div>
+            <div className="quote-item">
+                <span>To (OFT):</span>
+                <span><code>{call.to}</code></span>
+            </div>
+            <div className="quote-item">
+                <span>Value (msg.value):</span>
+                <span>{ethers.formatEther(call.value)} ETH</span>
+            </div>
+            <details className="send-review-calldata">
+                <summary>Calldata ({ethers.dataLength(call.data)} bytes)</summary>
+                <code>{call.data}</code>
+            </details>
+
+            <h4>SendParam</h4>
+            <div className="quote-item">
+                <span>Destination:</span>
+                <span>{getNetworkName(param.dstEid)} ({param.dstEid})</span>
+            </div>
+            <div className="quote-item">
+                <span>Recipient:</span>
+                <span><code>{preview.recipient}</code></span>
+            </div>
+            <div className="quote-item">
+                <span>to (bytes32):</span>
+                <span><code>{shorten(param.to)}</code></span>
+            </div>
+            <div className="quote-item">
+                <span>Amount:</span>
+                <span>{formatAmount(param.amountLD)}</span>
+            </div>
+            <div className="quote-item">
+                <span>Minimum Received:</span>
+                <span>{formatAmount(param.minAmountLD)}</span>
+            </div>
+            <div className="quote-item">
+                <span>Compose Message:</span>
+                <span>{param.composeMsg === '0x' ? 'None' : <code>{shorten(param.composeMsg)}</code>}</span>
+            </div>
+            <div className="quote-item">
+                <span>oftCmd:</span>
+                <span>{param.oftCmd === '0x' ? 'None' : <code>{shorten(param.oftCmd)}</code>}</span>
+            </div>
+
+            <h4>Extra Options</h4>
+            {options.entries.length === 0 ? (
+                <p>None, the adapter's enforced options apply</p>
+            ) : (
+                <table className="options-table">
+                    <tbody>
+                        {options.entries.map((entry, index) => (
+                            <tr key={index}>
+                                <td>{entry.worker === 'dvn' ? `DVN #${entry.verifierIndex}` : 'Executor'}</td>
+                                <td>{describeOption(entry)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+            {preview.effectiveOptions && (
+                <div className="quote-item">
+                    <span>Effective lzReceive Gas:</span>
+                    <span>{preview.effectiveOptions.summary.lzReceiveGas.toString()}</span>
+                </div>
+            )}
+
+            <h4>Fees</h4>
+            <div className="quote-item">
+                <span>Native Fee:</span>
+                <span>{ethers.formatEther(decoded.fee.nativeFee)} ETH</span>
+            </div>
+            {decoded.fee.lzTokenFee > 0n && (
+                <div className="quote-item">
+                    <span>lzToken Fee:</span>
+                    <span>{ethers.formatEther(decoded.fee.lzTokenFee)} ZRO</span>
+                </div>
+            )}
+            <div className="quote-item">
+                <span>Refund Address:</span>
+                <span><code>{decoded.refundAddress}</code></span>
+            </div>
+            {preview.gasLimit !== undefined ? (
+                <div className="quote-item">
+                    <span>Estimated Gas:</span>
+                    <span>{preview.gasLimit.toString()}</span>
+                </div>
+            ) : preview.sendCost ? (
+                <>
+                    <div className="quote-item">
+                        <span>Approval Gas:</span>
+                        <span>{preview.sendCost.approvalGasLimit.toString()}</span>
+                    </div>
+                    <div className="quote-item">
+                        <span>Estimated Gas:</span>
+                        <span>~{preview.sendCost.gasLimit.toString()} (final after the approval)</span>
+                    </div>
+                </>
+            ) : (
+                <div className="quote-item">
+                    <span>Estimated Gas:</span>
+                    <span>Estimated after the approval</span>
+                </div>
+            )}
+            {preview.maxFeePerGas !== undefined && (
+                <div className="quote-item">
+                    <span>Max Fee per Gas:</span>
+                    <span>{ethers.formatUnits(preview.maxFeePerGas, 'gwei')} gwei</span>
+                </div>
+            )}
+            {preview.l1DataFee !== undefined && preview.l1DataFee > 0n && (
+                <div className="quote-item">
+                    <span>L1 Data Fee:</span>
+                    <span>{ethers.formatEther(preview.l1DataFee)} ETH</span>
+                </div>
+            )}
+            <div className="quote-item">
+                <span>{preview.gasCost !== undefined ? 'Total Native Cost (max):' : 'Total Native Cost (excl. gas):'}</span>
+                <span>{ethers.formatEther(preview.totalNativeCost)} ETH</span>
+            </div>
+
+            <div className="form-actions">
+                <button type="button" onClick={onCancel} className="btn btn-secondary">
+                    Cancel
+                </button>
+                <button type="button" onClick={onConfirm} className="btn btn-primary">
+                    Confirm &amp; Open Wallet
+                </button>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,214 @@
+import { useState } from 'react'
+import { ethers } from 'ethers'
+import { OFTClient, decodeOptions, describeOption, getLayerZeroScanLink, getNetworkName, inspectCalldata, isTransactionHash } from '../lib'
+import type { DecodedOptions, SendInspection } from '../lib'
+
+interface TransactionInspectorProps {
+    client: OFTClient
+}
+
+function OptionsTable({ options }: { options: DecodedOptions }) {
+    if (options.entries.length === 0) {
+        return <p>No options set</p>
+    }
+    return (
+        <table className="options-table">
+            <tbody>
+                {options.entries.map((entry, index) => (
+                    <tr key={index}>
+                        <td>{entry.worker === 'dvn' ? `DVN #${entry.verifierIndex}` : 'Executor'}</td>
+                        <td>{describeOption(entry)}</td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    )
+}
+
+/**
+ * Paste a source transaction hash or raw send calldata and see what the bridge transaction did
+ */
+export function TransactionInspector({ client }: TransactionInspectorProps) {
+    const [input, setInput] = useState('')
+    const [inspection, setInspection] = useState<SendInspection | null>(null)
+    const [loading, setLoading] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+
+    const inspect = async () => {
+        const value = input.trim()
+        if (!value) return
+        setLoading(true)
+        setError(null)
+        setInspection(null)
+        try {
+            setInspection(isTransactionHash(value) ? await client.inspectTransaction(value) : inspectCalldata(value))
+        } catch (err) {
+            console.error('Failed to inspect transaction:', err)
+            setError(err instanceof Error ? err.message : 'Failed to inspect transaction')
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    const formatAmount = (amountLD: bigint) => inspection?.decimals !== undefined
+        ? ethers.formatUnits(amountLD, inspection.decimals)
+        : `${amountLD.toString()} (LD)`
+
+    const tx = inspection?.transaction
+    const call = inspection?.call
+    const message = inspection?.message
+    const srcEid = message?.srcEid ?? inspection?.packets[0]?.header.srcEid
+
+    return (
+        <div className="options-inspector transaction-inspector">
+            <h2>Transaction Inspector</h2>
+            <div className="form-group">
+                <label htmlFor="inspectInput">Source transaction hash or send calldata:</label>
+                <textarea
+                    id="inspectInput"
+                    value={input}
+                    onChange={(e) => setInput(e.target.value)}
+                    placeholder="0x…"
+                    rows={3}
+                    spellCheck={false}
+                />
+                <div className="field-help">
+                    <small>Hashes are looked up on {client.isReadOnly() ? 'the read-only network' : 'the connected network'}.</small>
+                </div>
+            </div>
+            <button type="button" className="btn btn-secondary" onClick={inspect} disabled={loading || !input.trim()}>
+                {loading ? 'Inspecting...' : 'Inspect'}
+            </button>
+
+            {error && (
+                <div className="validation-error" style={{ color: '#d32f2f' }}>
+                    <strong>⚠️ Could not inspect:</strong> {error}
+                </div>
+            )}
+
+            {inspection && (
+                <>
+                    {tx && (
+                        <>
+                            <h3>Transaction</h3>
+                            <div className="quote-item">
+                                <span>Status:</span>
+                                <span>{tx.status === null ? 'Pending' : tx.status === 1 ? '✅ Success' : '❌ Reverted'}</span>
+                            </div>
+                            <div className="quote-item">
+                                <span>From:</span>
+                                <span><code>{tx.from}</code></span>
+                            </div>
+                            <div className="quote-item">
+                                <span>To:</span>
+                                <span><code>{tx.to ?? 'Contract creation'}</code></span>
+                            </div>
+                            <div className="quote-item">
+                                <span>Value:</span>
+                                <span>{ethers.formatEther(tx.value)} ETH</span>
+                            </div>
+                            {tx.blockNumber !== null && (
+                                <div className="quote-item">
+                                    <span>Block:</span>
+                                    <span>{tx.blockNumber}</span>
+                                </div>
+                            )}
+                            {tx.fee !== undefined && (
+                                <div className="quote-item">
+                                    <span>Gas Used / Fee:</span>
+                                    <span>{tx.gasUsed?.toString()} / {ethers.formatEther(tx.fee)} ETH</span>
+                                </div>
+                            )}
+                        </>
+                    )}
+
+                    <h3>Send Arguments</h3>
+                    {!call ? (
+                        <p>Selector <code>{inspection.selector}</code> is not IOFT.send, the send may have gone through a batch or router.</p>
+                    ) : (
+                        <>
+                            <div className="quote-item">
+                                <span>Destination:</span>
+                                <span>{getNetworkName(call.sendParam.dstEid)} ({call.sendParam.dstEid})</span>
+                            </div>
+                            <div className="quote-item">
+                                <span>Recipient:</span>
+                                <span><code>{inspection.recipient}</code></span>
+                            </div>
+                            <div className="quote-item">
+                                <span>Amount / Minimum:</span>
+                                <span>{formatAmount(call.sendParam.amountLD)} / {formatAmount(call.sendParam.minAmountLD)}</span>
+                            </div>
+                            <div className="quote-item">
+                                <span>Fee (native / lzToken):</span>
+                                <span>{ethers.formatEther(call.fee.nativeFee)} ETH / {ethers.formatEther(call.fee.lzTokenFee)}</span>
+                            </div>
+                            <div className="quote-item">
+                                <span>Refund Address:</span>
+                                <span><code>{call.refundAddress}</code></span>
+                            </div>
+                            {call.sendParam.composeMsg !== '0x' && (
+                                <div className="quote-item">
+                                    <span>Compose Message:</span>
+                                    <span><code>{call.sendParam.composeMsg}</code></span>
+                                </div>
+                            )}
+                            <h4>Extra Options</h4>
+                            {inspection.options && <OptionsTable options={inspection.options} />}
+                        </>
+                    )}
+
+                    {tx && (
+                        <>
+                            <h3>Message</h3>
+                            {!message ? (
+                                <p>No OFTSent event in the receipt{tx.status === null ? ' yet' : ''}.</p>
+                            ) : (
+                                <>
+                                    <div className="quote-item">
+                                        <span>GUID:</span>
+                                        <span><code>{message.guid}</code></span>
+                                    </div>
+                                    <div className="quote-item">
+                                        <span>Nonce:</span>
+                                        <span>{message.nonce?.toString() ?? 'Unknown'}</span>
+                                    </div>
+                                    <div className="quote-item">
+                                        <span>Route:</span>
+                                        <span>{srcEid ? `${getNetworkName(srcEid)} → ` : ''}{getNetworkName(message.dstEid)}</span>
+                                    </div>
+                                    <div className="quote-item">
+                                        <span>OFT:</span>
+                                        <span><code>{inspection.oftAddress}</code></span>
+                                    </div>
+                                    <div className="quote-item">
+                                        <span>Sender:</span>
+                                        <span><code>{message.fromAddress}</code></span>
+                                    </div>
+                                    <div className="quote-item">
+                                        <span>Sent / Received:</span>
+                                        <span>{formatAmount(message.amountSentLD)} / {formatAmount(message.amountReceivedLD)}</span>
+                                    </div>
+                                    <div className="quote-item">
+                                        <span>LayerZero Scan:</span>
+                                        <span>
+                                            <a href={getLayerZeroScanLink(tx.hash, srcEid !== undefined && srcEid >= 40_000 && srcEid < 50_000)} target="_blank" rel="noopener noreferrer">
+                                                View message
+                                            </a>
+                                        </span>
+                                    </div>
+                                </>
+                            )}
+                            {inspection.packets.map((packet, index) => (
+                                <div key={index}>
+                                    <h4>PacketSent #{index} options (enforced + extra)</h4>
+                                    <OptionsTable options={decodeOptions(packet.options)} />
+                                </div>
+                            ))}
+                        </>
+                    )}
+                </>
+            )}
+        </div>
+    )
+}
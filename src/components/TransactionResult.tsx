@@ -1,11 +1,41 @@
-import type { SendResult } from '../lib'
+import { ethers } from 'ethers'
+import type { MessageStatus, OFTClient, SendResult } from '../lib'
+import { useMessageTracker } from '../hooks/useMessageTracker'
+import { useDestinationDelivery } from '../hooks/useDestinationDelivery'
 
 interface TransactionResultProps {
     result: SendResult | null
+    client: OFTClient | null
     onClose: () => void
 }
 
-export function TransactionResult({ result, onClose }: TransactionResultProps) {
+const STATUS_TITLES: Record<MessageStatus, string> = {
+    NOT_FOUND: 'Transfer Submitted ⏳',
+    INFLIGHT: 'Transfer In Flight ⏳',
+    CONFIRMING: 'Awaiting Verification ⏳',
+    DELIVERED: 'Transfer Delivered! 🎉',
+    FAILED: 'Delivery Failed ❌',
+    BLOCKED: 'Message Blocked ⚠️',
+    PAYLOAD_STORED: 'Payload Stored on Destination ⚠️',
+    UNKNOWN: 'Transfer Submitted ⏳'
+}
+
+type StepState = 'done' | 'active' | 'pending' | 'failed'
+
+function getDeliverySteps(status: MessageStatus): Array<{ label: string; state: StepState }> {
+    const failed = status === 'FAILED' || status === 'BLOCKED' || status === 'PAYLOAD_STORED'
+    const verifying = status === 'INFLIGHT' || status === 'CONFIRMING'
+    return [
+        { label: 'Source transaction confirmed', state: 'done' },
+        { label: 'Indexed by LayerZero Scan', state: status === 'NOT_FOUND' || status === 'UNKNOWN' ? 'active' : 'done' },
+        { label: 'DVN verification', state: verifying ? 'active' : status === 'DELIVERED' || failed ? 'done' : 'pending' },
+        { label: 'Delivered on destination', state: status === 'DELIVERED' ? 'done' : failed ? 'failed' : 'pending' }
+    ]
+}
+
+export function TransactionResult({ result, client, onClose }: TransactionResultProps) {
+    const { update, error: trackingError } = useMessageTracker(result)
+    const { delivery, watching, error: deliveryError } = useDestinationDelivery(result, client)
     console.log('🔍 TransactionResult: Rendering with result:', result)
     console.log('🔍 TransactionResult: result.txHash:', result?.txHash)
     console.log('🔍 TransactionResult: result.scanLink:', result?.scanLink)
@@ -38,11 +68,24 @@ export function TransactionResult({ result, onClose }: TransactionResultProps) {
             {/* Modal */}
             <div className="transaction-result">
                 <div className="result-header">
-                    <h3>Transfer Successful! 🎉</h3>
+                    <h3>{STATUS_TITLES[update?.status ?? 'NOT_FOUND']}</h3>
                     <button onClick={onClose} className="close-btn">&times;</button>
                 </div>
                 
                 <div className="result-content">
+                    <div className="delivery-progress">
+                        {getDeliverySteps(update?.status ?? 'NOT_FOUND').map(step => (
+                            <div key={step.label} className={`delivery-step ${step.state}`}>
+                                <span className="delivery-step-marker">
+                                    {step.state === 'done' ? '✅' : step.state === 'failed' ? '❌' : step.state === 'active' ? '⏳' : '○'}
+                                </span>
+                                {step.label}
+                            </div>
+                        ))}
+                        {update?.statusMessage && <small className="delivery-status-message">{update.statusMessage}</small>}
+                        {trackingError && <small className="delivery-status-message">Tracking paused: {trackingError} (retrying)</small>}
+                    </div>
+
                     <div className="result-item">
                         <strong>Transaction Hash:</strong>
                         <code>{result.txHash}</code>
@@ -52,6 +95,81 @@ export function TransactionResult({ result, onClose }: TransactionResultProps) {
                         <strong>LayerZero Scan Link:</strong>
                         <code>{result.scanLink}</code>
                     </div>
+
+                    <div className="result-item">
+                        <strong>On-chain Delivery Proof (OFTReceived):</strong>
+                        {delivery ? (
+                            <code>
+                                Credited {ethers.formatUnits(delivery.amountReceivedLD, result.decimals)} to {delivery.toAddress}
+                                <br />
+                                Tx {delivery.txHash} (block {delivery.blockNumber})
+                            </code>
+                        ) : (
+                            <code>
+                                {watching
+                                    ? `Watching destination chain...${deliveryError ? ` (retrying after: ${deliveryError})` : ''}`
+                                    : deliveryError ? `Unavailable: ${deliveryError}` : 'Not started'}
+                            </code>
+                        )}
+                    </div>
+
+                    {update?.dstTxHash && (
+                        <div className="result-item">
+                            <strong>Destination Transaction Hash:</strong>
+                            <code>{update.dstTxHash}</code>
+                        </div>
+                    )}
+
+                    {result.message && (
+                        <>
+                            <div className="result-item">
+                                <strong>Message GUID:</strong>
+                                <code>{result.message.guid}</code>
+                            </div>
+
+                            <div className="result-item">
+                                <strong>Nonce:</strong>
+                                <code>{result.message.nonce !== undefined ? result.message.nonce.toString() : 'Unknown'}</code>
+                            </div>
+
+                            <div className="result-item">
+                                <strong>Amount Debited:</strong>
+                                <code>{ethers.formatUnits(result.message.amountSentLD, result.decimals)}</code>
+                            </div>
+
+                            <div className="result-item">
+                                <strong>Amount Credited on Destination:</strong>
+                                <code>{ethers.formatUnits(result.message.amountReceivedLD, result.decimals)}</code>
+                            </div>
+                        </>
+                    )}
+
+                    {result.minAmountLD !== undefined && (
+                        <div className="result-item">
+                            <strong>Minimum Accepted:</strong>
+                            <code>
+                                {ethers.formatUnits(result.minAmountLD, result.decimals)}
+                                {result.slippageBps !== undefined && ` (${result.slippageBps / 100}% slippage tolerance)`}
+                            </code>
+                        </div>
+                    )}
+
+                    {result.messagingFee && (
+                        <div className="result-item">
+                            <strong>LayerZero Fee Paid:</strong>
+                            <code>
+                                {ethers.formatEther(result.messagingFee.nativeFee)} native
+                                {result.messagingFee.lzTokenFee > 0n && ` + ${ethers.formatEther(result.messagingFee.lzTokenFee)} ZRO`}
+                            </code>
+                        </div>
+                    )}
+
+                    {result.gasFee !== undefined && (
+                        <div className="result-item">
+                            <strong>Source Gas Paid:</strong>
+                            <code>{ethers.formatEther(result.gasFee)} native</code>
+                        </div>
+                    )}
                     
                     <div className="result-actions">
                         <a 
@@ -1,7 +1,12 @@
-import { useState, useEffect } from 'react'
-import { OFTClient } from '../lib'
-import type { QuoteResult, SendResult } from '../lib'
+import { useState, useEffect, useRef } from 'react'
+import { OFTClient, OFTError, USER_CANCELLED, toOFTError, DEFAULT_GAS_SETTINGS, FEE_HISTORY_BLOCKS, parseCustomGasFees, priceSendCost, MSG_TYPE_SEND_AND_CALL, OFT_COMPOSE_INDEX, EMPTY_EXECUTOR_OPTIONS_DRAFT, DEFAULT_APPROVAL_STRATEGY, formatAllowance, resolveApprovalAmount, analyzeAmount, buildExtraOptions, draftToSendArgs, findDeploymentByAddress, getNetworkName, listDeployments, validateRecipient, getRecipientPlaceholder, SOLANA_TOKEN_ACCOUNT_RENT_LAMPORTS, DEFAULT_SLIPPAGE_BPS, HIGH_SLIPPAGE_BPS, MAX_SLIPPAGE_BPS } from '../lib'
+import type { AmountAnalysis, ApprovalStrategy, GasSettings, SendCostEstimate, ExecutorOptionsDraft, OFTConfig, PeerInfo, QuoteResult, SendResult, TokenDeployment, TransferEvent } from '../lib'
+import { useTokenRegistry } from '../hooks/useTokenRegistry'
+import { ExecutionOptionsEditor } from './ExecutionOptionsEditor'
+import { ComposeMessageBuilder } from './ComposeMessageBuilder'
+import { SendReview } from './SendReview'
 import { ethers } from 'ethers'
+import { ChainType, endpointIdToChainType } from '@layerzerolabs/lz-definitions'
 
 interface TransferFormProps {
     client: OFTClient
@@ -15,7 +20,16 @@ interface TransferData {
     amount: string
     to: string
     oftAddress: string
-    minAmount: string
+    // Slippage tolerance in basis points, minAmount is derived from it at quote time
+    slippageBps: number
+    payInLzToken: boolean
+    includeSolanaRent: boolean
+    // Extra executor options, flattened into EvmSendArgs at quote and send time
+    executorOptions: ExecutorOptionsDraft
+    // Encoded composer payload, empty for a plain SEND
+    composeMsg: string
+    approvalStrategy: ApprovalStrategy
+    gasSettings: GasSettings
 }
 
 interface TokenInfo {
@@ -26,55 +40,32 @@ interface TokenInfo {
     totalSupply?: string
 }
 
-// Define adapter configurations with source and destination networks
+// Adapter choices derived from the token registry, one per deployment
 interface AdapterConfig {
     address: string
     name: string
     srcNetwork: string
     dstNetwork: string
     srcEid: number
-    dstEid: number
+    // Default destination, the token's first deployment on another endpoint of the same stage
+    dstEid?: number
     description: string
 }
 
-const ADAPTER_CONFIGS: AdapterConfig[] = [
-    {
-        address: "0x681E68B9E70882D461f3b65e1Cfe09e1f251494D",
-        name: "EURQ",
-        srcNetwork: "Ethereum",
-        dstNetwork: "Polygon",
-        srcEid: 30101,
-        dstEid: 30109,
-        description: "EURQ (Ethereum → Polygon)"
-    },
-    {
-        address: "0xCc1759221c2Ef0c069514F789d730508FEA1Da96",
-        name: "EURQ",
-        srcNetwork: "Polygon",
-        dstNetwork: "Ethereum",
-        srcEid: 30109,
-        dstEid: 30101,
-        description: "EURQ (Polygon → Ethereum)"
-    },
-    {
-        address: "0x302275E3DbaA05917516D7138f2F900a71dD623D",
-        name: "USDQ",
-        srcNetwork: "Ethereum",
-        dstNetwork: "Polygon",
-        srcEid: 30101,
-        dstEid: 30109,
-        description: "USDQ (Ethereum → Polygon)"
-    },
-    {
-        address: "0xA6f85Fc340F326512899D30049531eA239FfB058",
-        name: "USDQ",
-        srcNetwork: "Polygon",
-        dstNetwork: "Ethereum",
-        srcEid: 30109,
-        dstEid: 30101,
-        description: "USDQ (Polygon → Ethereum)"
+function toAdapterConfig(deployment: TokenDeployment): AdapterConfig {
+    const counterpart = deployment.counterparts[0]
+    return {
+        address: deployment.address,
+        name: deployment.symbol,
+        srcNetwork: deployment.network,
+        dstNetwork: counterpart ? getNetworkName(counterpart.eid) : 'any peer',
+        srcEid: deployment.eid,
+        dstEid: counterpart?.eid,
+        description: counterpart
+            ? `${deployment.symbol} (${deployment.network} → ${getNetworkName(counterpart.eid)})`
+            : `${deployment.symbol} (${deployment.network})`
     }
-]
+}
 
 export function TransferForm({ client, onTransfer, onError }: TransferFormProps) {
     const [transferData, setTransferData] = useState<TransferData>({
@@ -83,17 +74,34 @@ export function TransferForm({ client, onTransfer, onError }: TransferFormProps)
         amount: '1.000000',
         to: '',
         oftAddress: '',
-        minAmount: ''
+        slippageBps: DEFAULT_SLIPPAGE_BPS,
+        payInLzToken: false,
+        includeSolanaRent: true,
+        executorOptions: EMPTY_EXECUTOR_OPTIONS_DRAFT,
+        composeMsg: '',
+        approvalStrategy: DEFAULT_APPROVAL_STRATEGY,
+        gasSettings: DEFAULT_GAS_SETTINGS
     })
+    const [slippageInput, setSlippageInput] = useState((DEFAULT_SLIPPAGE_BPS / 100).toString())
 
     const [quote, setQuote] = useState<QuoteResult | null>(null)
+    // Gas limits and fee suggestions for the current quote, repriced locally when the gas setting changes
+    const [sendCost, setSendCost] = useState<SendCostEstimate | null>(null)
     const [loading, setLoading] = useState(false)
     const [quoteLoading, setQuoteLoading] = useState(false)
     const [tokenInfo, setTokenInfo] = useState<TokenInfo | null>(null)
+    const [oftConfig, setOftConfig] = useState<OFTConfig | null>(null)
     const [debugInfo, setDebugInfo] = useState<string[]>([])
-    const [approvalStatus, setApprovalStatus] = useState<'none' | 'checking' | 'needed' | 'approving' | 'approved' | 'failed'>('none')
+    const [transferProgress, setTransferProgress] = useState<TransferEvent | null>(null)
+    // Settles the pending review once the user confirms or cancels
+    const reviewDecision = useRef<((confirmed: boolean) => void) | null>(null)
     const [currentNetwork, setCurrentNetwork] = useState<string>('')
     const [currentSrcEid, setCurrentSrcEid] = useState<number>(0)
+    const { registry, error: registryError } = useTokenRegistry()
+    const adapterConfigs = registry ? listDeployments(registry).map(toAdapterConfig) : []
+    const [peers, setPeers] = useState<PeerInfo[] | null>(null)
+    const [peersLoading, setPeersLoading] = useState(false)
+    const [peersError, setPeersError] = useState<string | null>(null)
     const [adapterValidation, setAdapterValidation] = useState<{
         isValid: boolean
         error?: string
@@ -123,18 +131,19 @@ export function TransferForm({ client, onTransfer, onError }: TransferFormProps)
                 setTransferData(prev => ({ ...prev, srcEid }))
                 
                 // Automatically select the appropriate adapter for the current network
-                const compatibleAdapter = ADAPTER_CONFIGS.find(config => config.srcEid === srcEid)
+                const compatibleDeployment = registry ? listDeployments(registry, srcEid)[0] : undefined
+                const compatibleAdapter = compatibleDeployment ? toAdapterConfig(compatibleDeployment) : undefined
                 if (compatibleAdapter) {
                     addDebugInfo(`🔄 Auto-selecting compatible adapter for ${eidToNetwork[srcEid]}: ${compatibleAdapter.description}`)
                     
                     // Validate and select the adapter
-                    const isValidAdapter = validateAdapterSelection(compatibleAdapter.address)
+                    const isValidAdapter = validateAdapterSelection(compatibleAdapter.address, srcEid)
                     if (isValidAdapter) {
                         // Set the adapter address and automatically set destination chain
                         setTransferData(prev => ({ 
                             ...prev, 
                             oftAddress: compatibleAdapter.address,
-                            dstEid: compatibleAdapter.dstEid
+                            dstEid: compatibleAdapter.dstEid ?? prev.dstEid
                         }))
                         
                         // Get token info for the selected adapter
@@ -155,7 +164,42 @@ export function TransferForm({ client, onTransfer, onError }: TransferFormProps)
         }
         
         getCurrentNetwork()
-    }, [client])
+    }, [client, registry])
+
+    // Offer exactly the destinations the OFT has peers for
+    useEffect(() => {
+        if (!currentSrcEid || !ethers.isAddress(transferData.oftAddress)) {
+            setPeers(null)
+            setPeersError(null)
+            return
+        }
+
+        let cancelled = false
+        setPeersLoading(true)
+        setPeersError(null)
+        client.discoverPeers(transferData.oftAddress, { srcEid: currentSrcEid })
+            .then(found => {
+                if (cancelled) return
+                setPeers(found)
+                // Keep the chosen destination if it is a valid pathway, otherwise pick the first peer
+                setTransferData(prev => found.length === 0 || found.some(peer => peer.eid === prev.dstEid)
+                    ? prev
+                    : { ...prev, dstEid: found[0].eid })
+            })
+            .catch(error => {
+                if (cancelled) return
+                console.error('Peer discovery failed:', error)
+                setPeers(null)
+                setPeersError(error instanceof Error ? error.message : String(error))
+            })
+            .finally(() => {
+                if (!cancelled) setPeersLoading(false)
+            })
+
+        return () => {
+            cancelled = true
+        }
+    }, [client, currentSrcEid, transferData.oftAddress])
 
     const addDebugInfo = (message: string) => {
         console.log(`🔍 DEBUG: ${message}`)
@@ -167,15 +211,19 @@ export function TransferForm({ client, onTransfer, onError }: TransferFormProps)
     }
 
     // Validate adapter selection based on current network
-    const validateAdapterSelection = (adapterAddress: string): AdapterConfig | null => {
-        const adapter = ADAPTER_CONFIGS.find(config => config.address.toLowerCase() === adapterAddress.toLowerCase())
+    const validateAdapterSelection = (adapterAddress: string, srcEid = currentSrcEid): AdapterConfig | null => {
+        // The same address can be deployed on several chains, prefer the current one
+        const deployment = registry
+            ? findDeploymentByAddress(registry, adapterAddress, srcEid) ?? findDeploymentByAddress(registry, adapterAddress)
+            : null
+        const adapter = deployment ? toAdapterConfig(deployment) : null
         
         if (!adapter) {
             setAdapterValidation({ isValid: false, error: 'Unknown adapter address' })
             return null
         }
         
-        if (adapter.srcEid !== currentSrcEid) {
+        if (adapter.srcEid !== srcEid) {
             setAdapterValidation({ 
                 isValid: false, 
                 error: `This adapter is for ${adapter.srcNetwork} network, but you are connected to ${currentNetwork}`,
@@ -202,7 +250,7 @@ export function TransferForm({ client, onTransfer, onError }: TransferFormProps)
             setTransferData(prev => ({ 
                 ...prev, 
                 oftAddress: adapter.address,
-                dstEid: adapter.dstEid
+                dstEid: adapter.dstEid ?? prev.dstEid
             }))
             
             // Get token info for the selected adapter
@@ -219,6 +267,7 @@ export function TransferForm({ client, onTransfer, onError }: TransferFormProps)
         }))
         setAdapterValidation({ isValid: false })
         setTokenInfo(null)
+        setOftConfig(null)
     }
 
     // Validate form before submission
@@ -227,95 +276,106 @@ export function TransferForm({ client, onTransfer, onError }: TransferFormProps)
         if (!transferData.to) return false
         if (!transferData.amount) return false
         if (adapterValidation.selectedAdapter && !adapterValidation.isValid) return false
+        if (!isSlippageValid(transferData.slippageBps)) return false
+        if (!areExecutorOptionsValid()) return false
+        if (getApprovalStrategyError()) return false
+        if (getGasSettingsError()) return false
         return true
     }
 
-    const checkAndHandleApproval = async (tokenAddress: string, oftAddress: string, amount: string, decimals: number) => {
-        setApprovalStatus('checking')
-        addDebugInfo('Checking token allowance...')
-        
+    const getGasSettingsError = (): string | null => {
+        const settings = transferData.gasSettings
+        if (settings.speed !== 'custom') return null
         try {
-            const signer = await client.getSignerForExternal()
-            const tokenContract = new ethers.Contract(tokenAddress, [
-                'function allowance(address owner, address spender) external view returns (uint256)',
-                'function approve(address spender, uint256 amount) external returns (bool)'
-            ], signer)
-            
-            const signerAddress = await signer.getAddress()
-            const currentAllowance = await tokenContract.allowance(signerAddress, oftAddress)
-            const amountToSend = ethers.parseUnits(amount, decimals)
-            
-            addDebugInfo(`Current allowance: ${ethers.formatUnits(currentAllowance, decimals)}`)
-            addDebugInfo(`Required amount: ${ethers.formatUnits(amountToSend, decimals)}`)
-            
-            if (currentAllowance >= amountToSend) {
-                setApprovalStatus('approved')
-                addDebugInfo('✅ Sufficient allowance already exists')
-                return true
-            } else {
-                setApprovalStatus('needed')
-                addDebugInfo('⚠️ Insufficient allowance - approval needed')
-                return false
-            }
+            parseCustomGasFees(settings)
+            return null
         } catch (error) {
-            setApprovalStatus('failed')
-            addDebugInfo(`❌ Could not check allowance: ${error}`)
-            return false
+            return error instanceof Error ? error.message : String(error)
         }
     }
 
-    const handleApproval = async (tokenAddress: string, oftAddress: string, amount: string, decimals: number) => {
-        setApprovalStatus('approving')
-        addDebugInfo('Requesting token approval...')
-        addDebugInfo('MetaMask popup should appear for approval...')
-        
-        try {
-            const signer = await client.getSignerForExternal()
-            const tokenContract = new ethers.Contract(tokenAddress, [
-                'function approve(address spender, uint256 amount) external returns (bool)',
-                'function allowance(address owner, address spender) external view returns (uint256)'
-            ], signer)
-            
-            const amountToSend = ethers.parseUnits(amount, decimals)
-            
-            // Request approval - this should trigger MetaMask popup
-            addDebugInfo('Sending approval transaction...')
-            const approveTx = await tokenContract.approve(oftAddress, amountToSend)
-            addDebugInfo(`Approval transaction sent: ${approveTx.hash}`)
-            addDebugInfo('Waiting for approval confirmation...')
-            
-            // Wait for confirmation
-            const receipt = await approveTx.wait()
-            addDebugInfo(`Approval confirmed in block: ${receipt.blockNumber}`)
-            
-            // Verify the new allowance
-            const signerAddress = await signer.getAddress()
-            const newAllowance = await tokenContract.allowance(signerAddress, oftAddress)
-            
-            if (newAllowance >= amountToSend) {
-                setApprovalStatus('approved')
-                addDebugInfo('✅ Approval successful')
-                return true
-            } else {
-                setApprovalStatus('failed')
-                addDebugInfo('❌ Approval failed - insufficient allowance after approval')
-                return false
+    const handleGasSpeedChange = (speed: GasSettings['speed']) => {
+        if (speed !== 'custom') {
+            setTransferData(prev => ({ ...prev, gasSettings: { speed } }))
+            return
+        }
+        // Start custom fees from the normal suggestion when we have one
+        const normal = sendCost?.suggestions.normal
+        setTransferData(prev => ({
+            ...prev,
+            gasSettings: {
+                speed,
+                maxFeePerGas: normal ? ethers.formatUnits(normal.maxFeePerGas, 'gwei') : '',
+                maxPriorityFeePerGas: normal ? ethers.formatUnits(normal.maxPriorityFeePerGas, 'gwei') : ''
             }
+        }))
+    }
+
+    const getPricedSendCost = (): SendCostEstimate | null => {
+        if (!sendCost || getGasSettingsError()) return null
+        return priceSendCost(sendCost, sendCost.nativeFee, sendCost.suggestions, transferData.gasSettings)
+    }
+
+    // Caps are checked against the amount once the token's decimals are known
+    const getApprovalStrategyError = (): string | null => {
+        const strategy = transferData.approvalStrategy
+        if (strategy.kind !== 'capped') return null
+        if (!strategy.cap.trim()) return 'Enter an approval cap'
+        if (!tokenInfo) return null
+        try {
+            resolveApprovalAmount(strategy, ethers.parseUnits(transferData.amount || '0', tokenInfo.decimals), tokenInfo.decimals)
+            return null
         } catch (error) {
-            setApprovalStatus('failed')
-            addDebugInfo(`❌ Approval failed: ${error}`)
+            return error instanceof Error ? error.message : String(error)
+        }
+    }
+
+    const handleApprovalStrategyChange = (kind: ApprovalStrategy['kind']) => {
+        const approvalStrategy: ApprovalStrategy = kind === 'capped'
+            ? { kind, cap: transferData.approvalStrategy.kind === 'capped' ? transferData.approvalStrategy.cap : transferData.amount }
+            : { kind }
+        setTransferData(prev => ({ ...prev, approvalStrategy }))
+    }
+
+    const hasComposeOption = transferData.executorOptions.compose.some(option =>
+        option.index.trim() === String(OFT_COMPOSE_INDEX) && /^\d+$/.test(option.gas.trim()) && BigInt(option.gas.trim()) > 0n
+    )
+
+    const addComposeOption = () => {
+        setTransferData(prev => ({
+            ...prev,
+            executorOptions: {
+                ...prev.executorOptions,
+                compose: [...prev.executorOptions.compose, { index: String(OFT_COMPOSE_INDEX), gas: '', value: '' }]
+            }
+        }))
+    }
+
+    const areExecutorOptionsValid = (): boolean => {
+        try {
+            buildExtraOptions({ ...transferData, ...draftToSendArgs(transferData.executorOptions) })
+            return true
+        } catch {
             return false
         }
     }
 
-    const handleInputChange = (field: keyof TransferData, value: string | number) => {
+    const isSlippageValid = (bps: number) => Number.isInteger(bps) && bps >= 0 && bps <= MAX_SLIPPAGE_BPS
+
+    const handleSlippageChange = (percent: string) => {
+        setSlippageInput(percent)
+        const bps = percent.trim() === '' ? NaN : Math.round(parseFloat(percent) * 100)
+        handleInputChange('slippageBps', bps)
+    }
+
+    const handleInputChange = (field: keyof TransferData, value: string | number | boolean) => {
         setTransferData(prev => ({ ...prev, [field]: value }))
         
         // If OFT address is manually changed, validate it and get token info
         if (field === 'oftAddress' && typeof value === 'string') {
             if (value) {
                 // Check if it's one of our known adapters
-                const adapter = ADAPTER_CONFIGS.find(config => config.address.toLowerCase() === value.toLowerCase())
+                const adapter = registry ? findDeploymentByAddress(registry, value) : null
                 if (adapter) {
                     // This is a known adapter - validate and get token info
                     const isValidAdapter = validateAdapterSelection(value)
@@ -323,7 +383,7 @@ export function TransferForm({ client, onTransfer, onError }: TransferFormProps)
                         // Automatically set destination chain for known valid adapters
                         setTransferData(prev => ({ 
                             ...prev, 
-                            dstEid: adapter.dstEid
+                            dstEid: isValidAdapter.dstEid ?? prev.dstEid
                         }))
                     }
                     // Always get token info for known adapters
@@ -334,7 +394,7 @@ export function TransferForm({ client, onTransfer, onError }: TransferFormProps)
                     
                     // Try to get token info for any valid address format
                     if (value.startsWith('0x') && value.length === 42) {
-                        setApprovalStatus('none') // Reset approval status for new token
+                        setTransferProgress(null) // Reset progress for new token
                         getTokenInfo(value)
                     }
                 }
@@ -350,13 +410,13 @@ export function TransferForm({ client, onTransfer, onError }: TransferFormProps)
             addDebugInfo(`Getting token info for OFT address: ${oftAddress}`)
             
             // Get token info directly from the OFT adapter
-            const signer = await client.getSignerForExternal()
+            const provider = client.getProvider()
             const oft = new ethers.Contract(oftAddress, [
                 'function token() external view returns (address)',
                 'function name() external view returns (string)',
                 'function symbol() external view returns (string)',
                 'function decimals() external view returns (uint8)'
-            ], signer)
+            ], provider)
             
             // First try to get the underlying token address
             let tokenAddress: string
@@ -376,7 +436,7 @@ export function TransferForm({ client, onTransfer, onError }: TransferFormProps)
                     'function symbol() external view returns (string)',
                     'function decimals() external view returns (uint8)',
                     'function totalSupply() external view returns (uint256)'
-                ], signer)
+                ], provider)
                 
                 tokenName = await tokenContract.name()
                 tokenSymbol = await tokenContract.symbol()
@@ -422,9 +482,27 @@ export function TransferForm({ client, onTransfer, onError }: TransferFormProps)
             }
             
             setTokenInfo(tokenInfo)
+
+            const deployment = registry ? findDeploymentByAddress(registry, oftAddress) : null
+            if (deployment && deployment.decimals !== Number(tokenDecimals)) {
+                addDebugInfo(`⚠️ Registry lists ${deployment.decimals} decimals for ${deployment.symbol} but the token reports ${tokenDecimals}`)
+            }
+            
+            // Shared decimals are needed to show how much will actually be bridged
+            try {
+                const config = await client.getOFTConfig(oftAddress)
+                setOftConfig(config)
+                if (config.sharedDecimals !== undefined) {
+                    addDebugInfo(`Shared decimals: ${config.sharedDecimals} (conversion rate ${config.decimalConversionRate})`)
+                }
+            } catch (configError) {
+                addDebugInfo(`Could not get OFT config: ${configError}`)
+                setOftConfig(null)
+            }
         } catch (error) {
             addDebugInfo(`Could not get token info: ${error}`)
             setTokenInfo(null)
+            setOftConfig(null)
         }
     }
 
@@ -443,8 +521,9 @@ export function TransferForm({ client, onTransfer, onError }: TransferFormProps)
             return
         }
 
-        if (!transferData.to.startsWith('0x') || transferData.to.length !== 42) {
-            onError('Invalid recipient address format. Must be a valid Ethereum address.')
+        const recipientError = validateRecipient(transferData.to, transferData.dstEid)
+        if (recipientError) {
+            onError(recipientError)
             return
         }
 
@@ -457,6 +536,7 @@ export function TransferForm({ client, onTransfer, onError }: TransferFormProps)
 
         setQuoteLoading(true)
         setQuote(null)
+        setSendCost(null)
 
         try {
             // Get the correct srcEid based on current network
@@ -466,6 +546,7 @@ export function TransferForm({ client, onTransfer, onError }: TransferFormProps)
             // Update the transfer data with the correct srcEid
             const updatedTransferData = {
                 ...transferData,
+                ...draftToSendArgs(transferData.executorOptions),
                 srcEid: currentSrcEid
             }
             
@@ -473,6 +554,14 @@ export function TransferForm({ client, onTransfer, onError }: TransferFormProps)
             
             const quoteResult = await client.quoteSend(updatedTransferData)
             setQuote(quoteResult)
+
+            try {
+                const cost = await client.estimateSendCost(quoteResult, transferData.approvalStrategy, DEFAULT_GAS_SETTINGS)
+                setSendCost(cost)
+                addDebugInfo(`Gas estimate: send ${cost.gasLimit}${cost.approximate ? ' (typical)' : ''}, approval ${cost.approvalGasLimit}, base fee ${ethers.formatUnits(cost.suggestions.baseFee, 'gwei')} gwei`)
+            } catch (costError) {
+                addDebugInfo(`Could not estimate gas: ${costError}`)
+            }
             
             // Update token info if available
             if (quoteResult.tokenInfo) {
@@ -483,15 +572,67 @@ export function TransferForm({ client, onTransfer, onError }: TransferFormProps)
         } catch (error) {
             console.error('Quote error:', error)
             addDebugInfo(`Quote error: ${error}`)
-            const errorMessage = error instanceof Error ? error.message : 'Failed to get quote'
-            onError(errorMessage)
+            if (error instanceof OFTError) {
+                addDebugInfo(`💡 ${error.remedy}`)
+                onError(`${error.message}. ${error.remedy}`)
+            } else {
+                onError(error instanceof Error ? error.message : 'Failed to get quote')
+            }
         } finally {
             setQuoteLoading(false)
         }
     }
 
+    const reviewSend = () => new Promise<boolean>(resolve => {
+        reviewDecision.current = resolve
+    })
+
+    const decideReview = (confirmed: boolean) => {
+        reviewDecision.current?.(confirmed)
+        reviewDecision.current = null
+    }
+
+    const handleTransferEvent = (event: TransferEvent) => {
+        setTransferProgress(event)
+        switch (event.state) {
+            case 'reviewing':
+                addDebugInfo(`Review: ${ethers.dataLength(event.preview.call.data)} bytes of calldata to ${event.preview.call.to}, value ${ethers.formatEther(event.preview.call.value)} ETH`)
+                break
+            case 'awaitingApproval': {
+                const { plan } = event
+                if (event.asset === 'lzToken') {
+                    addDebugInfo(`lzToken allowance to the endpoint: ${ethers.formatEther(plan.allowance)}, approving ${ethers.formatEther(plan.approvalAmountLD)}`)
+                    break
+                }
+                addDebugInfo(`Current allowance: ${ethers.formatUnits(plan.allowance, event.quote.decimals)}`)
+                addDebugInfo(`Approving (${plan.strategy.kind}): ${formatAllowance(plan.approvalAmountLD, event.quote.decimals)}`)
+                addDebugInfo(plan.method === 'permit' ? '✍️ Token supports EIP-2612 permit' : 'Token has no permit, an approve call is needed')
+                if (plan.batched) {
+                    addDebugInfo('📦 Wallet supports wallet_sendCalls - approval will be batched with the transfer')
+                }
+                break
+            }
+            case 'approving':
+                addDebugInfo(`${event.asset === 'lzToken' ? 'lzToken approval' : 'Approval'} submitted: ${event.txHash}`)
+                break
+            case 'simulating':
+                addDebugInfo('Simulating transfer...')
+                break
+            case 'awaitingSignature':
+                addDebugInfo('Waiting for wallet confirmation...')
+                break
+            case 'submitted':
+                addDebugInfo(event.txHash ? `Transaction submitted: ${event.txHash}` : `Batch submitted: ${event.batchId}`)
+                break
+            case 'failed':
+                addDebugInfo(`❌ Transfer failed while ${event.failedIn}: ${event.error.message}`)
+                break
+        }
+    }
+
     const handleTransfer = async () => {
         clearDebugInfo()
+        setTransferProgress(null)
         addDebugInfo('Starting transfer process...')
         
         if (!transferData.amount || !transferData.to || !transferData.oftAddress) {
@@ -505,8 +646,9 @@ export function TransferForm({ client, onTransfer, onError }: TransferFormProps)
             return
         }
 
-        if (!transferData.to.startsWith('0x') || transferData.to.length !== 42) {
-            onError('Invalid recipient address format. Must be a valid Ethereum address.')
+        const recipientError = validateRecipient(transferData.to, transferData.dstEid)
+        if (recipientError) {
+            onError(recipientError)
             return
         }
 
@@ -520,125 +662,19 @@ export function TransferForm({ client, onTransfer, onError }: TransferFormProps)
         setLoading(true)
 
         try {
-            // Validate OFT adapter first
-            addDebugInfo('Validating OFT adapter...')
-            const validation = await client.validateOFTAdapter(transferData.oftAddress)
-            if (!validation.isValid) {
-                throw new Error(`OFT adapter validation failed: ${validation.error}`)
-            }
-            addDebugInfo('✅ OFT adapter validation passed')
-            
-            // Check network compatibility
-            addDebugInfo('Checking network compatibility...')
-            const networkCheck = await client.checkNetworkCompatibility(transferData.oftAddress)
-            addDebugInfo(`Current network: ${networkCheck.currentNetwork}`)
-            
-            if (!networkCheck.isCompatible) {
-                addDebugInfo(`❌ Network compatibility issue: ${networkCheck.error}`)
-                if (networkCheck.recommendations) {
-                    networkCheck.recommendations.forEach(rec => addDebugInfo(`💡 Recommendation: ${rec}`))
-                }
-                throw new Error(`Network compatibility issue: ${networkCheck.error}`)
-            }
-            addDebugInfo('✅ Network compatibility check passed')
-            
-            // Check OFT adapter support for specific destination and amount
-            if (tokenInfo) {
-                addDebugInfo('Checking OFT adapter support for destination and amount...')
-                const supportCheck = await client.checkOFTAdapterSupport(
-                    transferData.oftAddress,
-                    transferData.dstEid,
-                    transferData.amount,
-                    tokenInfo.decimals
-                )
-                
-                if (!supportCheck.isSupported) {
-                    addDebugInfo(`❌ OFT adapter support issue: ${supportCheck.error}`)
-                    if (supportCheck.recommendations) {
-                        supportCheck.recommendations.forEach(rec => addDebugInfo(`💡 Recommendation: ${rec}`))
-                    }
-                    throw new Error(`OFT adapter support issue: ${supportCheck.error}`)
-                }
-                addDebugInfo('✅ OFT adapter support check passed')
-            }
-            
-            // Get the correct srcEid based on current network
             const currentSrcEid = await client.getCurrentSrcEid()
             addDebugInfo(`Current srcEid: ${currentSrcEid}`)
             
-            // Update the transfer data with the correct srcEid
             const updatedTransferData = {
                 ...transferData,
+                ...draftToSendArgs(transferData.executorOptions),
                 srcEid: currentSrcEid
             }
             
             addDebugInfo(`Transfer data: ${JSON.stringify(updatedTransferData, null, 2)}`)
             
-            // Get signer address for debugging
-            const signerAddress = await client.getSignerAddress()
-            addDebugInfo(`Signer address: ${signerAddress}`)
-            
-            // Check balance before transfer
-            const signer = await client.getSignerForExternal()
-            const balance = await signer.provider.getBalance(signerAddress)
-            addDebugInfo(`Signer ETH balance: ${ethers.formatEther(balance)} ETH`)
-            
-            // Check token balance if we have token info
-            if (tokenInfo) {
-                try {
-                    const tokenContract = new ethers.Contract(tokenInfo.address, [
-                        'function balanceOf(address owner) external view returns (uint256)',
-                        'function allowance(address owner, address spender) external view returns (uint256)'
-                    ], signer)
-                    
-                    const tokenBalance = await tokenContract.balanceOf(signerAddress)
-                    const tokenBalanceFormatted = ethers.formatUnits(tokenBalance, tokenInfo.decimals)
-                    addDebugInfo(`Token balance: ${tokenBalanceFormatted} ${tokenInfo.symbol}`)
-                    
-                    // Check allowance for OFT adapter
-                    const allowance = await tokenContract.allowance(signerAddress, transferData.oftAddress)
-                    const allowanceFormatted = ethers.formatUnits(allowance, tokenInfo.decimals)
-                    addDebugInfo(`Allowance for OFT: ${allowanceFormatted} ${tokenInfo.symbol}`)
-                    
-                    // Check if we have enough balance
-                    const amountToSend = ethers.parseUnits(transferData.amount, tokenInfo.decimals)
-                    if (tokenBalance < amountToSend) {
-                        throw new Error(`Insufficient token balance. Have: ${tokenBalanceFormatted} ${tokenInfo.symbol}, Need: ${transferData.amount} ${tokenInfo.symbol}`)
-                    }
-                    
-                    // Check and handle approval
-                    const hasSufficientAllowance = await checkAndHandleApproval(
-                        tokenInfo.address, 
-                        transferData.oftAddress, 
-                        transferData.amount, 
-                        tokenInfo.decimals
-                    )
-                    
-                    if (!hasSufficientAllowance) {
-                        addDebugInfo('Approval needed before transfer')
-                        addDebugInfo('Requesting approval from MetaMask...')
-                        
-                        const approvalSuccess = await handleApproval(
-                            tokenInfo.address, 
-                            transferData.oftAddress, 
-                            transferData.amount, 
-                            tokenInfo.decimals
-                        )
-                        
-                        if (!approvalSuccess) {
-                            throw new Error('Token approval failed. Please try again.')
-                        }
-                        
-                        addDebugInfo('✅ Approval successful, proceeding with transfer...')
-                    } else {
-                        addDebugInfo('✅ Sufficient allowance already exists')
-                    }
-                } catch (error) {
-                    addDebugInfo(`Could not check token balance: ${error}`)
-                }
-            }
-            
-            const result = await client.sendTokens(updatedTransferData)
+            // The client runs quote, review, approval, simulation and send once each; we only follow along
+            const result = await client.sendTokens(updatedTransferData, handleTransferEvent, reviewSend)
             console.log('🔍 TransferForm: Received result from sendTokens:', result)
             console.log('🔍 TransferForm: result.txHash:', result.txHash)
             console.log('🔍 TransferForm: result.scanLink:', result.scanLink)
@@ -654,36 +690,19 @@ export function TransferForm({ client, onTransfer, onError }: TransferFormProps)
             onTransfer(result)
             setQuote(null)
         } catch (error) {
+            const oftError = toOFTError(error)
+            if (oftError.code === USER_CANCELLED) {
+                addDebugInfo('Transfer cancelled at review')
+                setTransferProgress(null)
+                return
+            }
             console.error('Transfer error:', error)
-            addDebugInfo(`Transfer error: ${error}`)
-            
-            // Enhanced error analysis
-            if (error instanceof Error) {
-                const errorMessage = error.message
-                addDebugInfo(`Error message: ${errorMessage}`)
-                
-                // Check for specific error patterns
-                if (errorMessage.includes('execution reverted')) {
-                    addDebugInfo('Transaction reverted - this usually means a smart contract validation failed')
-                    addDebugInfo('Common causes: insufficient balance, insufficient allowance, invalid parameters')
-                }
-                
-                if (errorMessage.includes('require(false)')) {
-                    addDebugInfo('Smart contract has a require(false) condition - this indicates a validation failure')
-                    addDebugInfo('Check: token balance, allowance, network compatibility, parameter validity')
-                }
-                
-                if (errorMessage.includes('insufficient funds')) {
-                    addDebugInfo('Insufficient ETH for gas fees')
-                }
-                
-                if (errorMessage.includes('user rejected')) {
-                    addDebugInfo('User rejected the transaction in MetaMask')
-                }
+            addDebugInfo(`Transfer error (${oftError.code}): ${oftError.message}`)
+            if (Object.keys(oftError.args).length > 0) {
+                addDebugInfo(`Error args: ${Object.entries(oftError.args).map(([name, value]) => `${name}=${String(value)}`).join(', ')}`)
             }
-            
-            const errorMessage = error instanceof Error ? error.message : 'Transfer failed'
-            onError(errorMessage)
+            addDebugInfo(`💡 ${oftError.remedy}`)
+            onError(`${oftError.message}. ${oftError.remedy}`)
         } finally {
             setLoading(false)
         }
@@ -693,6 +712,39 @@ export function TransferForm({ client, onTransfer, onError }: TransferFormProps)
         return (parseInt(wei) / 1e18).toFixed(6)
     }
 
+    // Dust and shared-decimals overflow for the current input, null while the input is not a number
+    const getAmountAnalysis = (): AmountAnalysis | null => {
+        if (!oftConfig || !transferData.amount) return null
+        try {
+            return analyzeAmount(transferData.amount, oftConfig.decimals, oftConfig.decimalConversionRate)
+        } catch {
+            return null
+        }
+    }
+    const amountAnalysis = getAmountAnalysis()
+    const pricedCost = getPricedSendCost()
+
+    const roundDownAmount = () => {
+        if (!amountAnalysis || !oftConfig) return
+        handleInputChange('amount', ethers.formatUnits(amountAnalysis.bridgedAmountLD, oftConfig.decimals))
+    }
+
+    const selectedPeer = peers?.find(peer => peer.eid === transferData.dstEid)
+    // A single peer leaves nothing to choose
+    const destinationPinned = peers?.length === 1
+    // Until peers load, offer the registry's counterparts of the selected deployment
+    const registryDestinations = registry && ethers.isAddress(transferData.oftAddress)
+        ? findDeploymentByAddress(registry, transferData.oftAddress, currentSrcEid || undefined)?.counterparts ?? []
+        : []
+
+    const formatPeerAddress = (address: string) =>
+        address.length > 16 ? `${address.slice(0, 8)}…${address.slice(-6)}` : address
+
+    const formatTokenAmount = (amountLD: bigint) => {
+        if (!tokenInfo) return amountLD.toString()
+        return `${ethers.formatUnits(amountLD, tokenInfo.decimals)} ${tokenInfo.symbol}`
+    }
+
     return (
         <div className="transfer-form">
             <h2>Cross-Chain Token Transfer</h2>
@@ -764,13 +816,18 @@ export function TransferForm({ client, onTransfer, onError }: TransferFormProps)
                         }}
                     >
                         <option value="">Select a common token...</option>
-                        {ADAPTER_CONFIGS.map(config => (
-                            <option key={config.address} value={config.address}>
+                        {adapterConfigs.map(config => (
+                            <option key={`${config.srcEid}:${config.address}`} value={config.address}>
                                 {config.name} ({config.srcNetwork} → {config.dstNetwork}) - {config.address}
                                 {config.address === transferData.oftAddress && adapterValidation.isValid ? ' (Auto-selected)' : ''}
                             </option>
                         ))}
                     </select>
+                    {registryError && (
+                        <small style={{ color: '#d32f2f', display: 'block', marginTop: '0.25rem' }}>
+                            ⚠️ Token registry unavailable: {registryError}
+                        </small>
+                    )}
                 </div>
                 
                 <input
@@ -834,7 +891,7 @@ export function TransferForm({ client, onTransfer, onError }: TransferFormProps)
                     }}>
                         <strong>✅ Compatible Adapter Selected:</strong>
                         <p>{adapterValidation.selectedAdapter.description}</p>
-                        <p>Destination chain will be automatically set to {adapterValidation.selectedAdapter.dstNetwork}.</p>
+                        <p>Destination defaults to {adapterValidation.selectedAdapter.dstNetwork}, any of the OFT's peers can be chosen.</p>
                     </div>
                 )}
                 
@@ -939,7 +996,7 @@ export function TransferForm({ client, onTransfer, onError }: TransferFormProps)
 
             <div className="form-group">
                 <label htmlFor="dstEid">Destination Network:</label>
-                {adapterValidation.selectedAdapter && adapterValidation.isValid ? (
+                {destinationPinned ? (
                     <div style={{
                         background: '#e8f5e8',
                         border: '1px solid #4caf50',
@@ -947,13 +1004,13 @@ export function TransferForm({ client, onTransfer, onError }: TransferFormProps)
                         padding: '0.75rem',
                         marginBottom: '0.5rem'
                     }}>
-                        <strong>🎯 Automatically set to: {adapterValidation.selectedAdapter.dstNetwork}</strong>
+                        <strong>🎯 Only destination: {peers[0].network}</strong>
                         <br />
-                        <small>Based on your selected OFT adapter</small>
+                        <small>The OFT has a single peer</small>
                     </div>
                 ) : (
                     <div className="field-help">
-                        <small>Select destination network manually, or choose an OFT adapter above to auto-select</small>
+                        <small>Destinations are the OFT's on-chain peers; choose an OFT adapter above to list them</small>
                     </div>
                 )}
                 
@@ -961,14 +1018,51 @@ export function TransferForm({ client, onTransfer, onError }: TransferFormProps)
                     id="dstEid"
                     value={transferData.dstEid}
                     onChange={(e) => handleInputChange('dstEid', parseInt(e.target.value))}
-                    disabled={!!adapterValidation.selectedAdapter && adapterValidation.isValid}
+                    disabled={destinationPinned || (!peers && registryDestinations.length === 0)}
                     style={{
-                        backgroundColor: adapterValidation.selectedAdapter && adapterValidation.isValid ? '#f5f5f5' : 'white'
+                        backgroundColor: destinationPinned ? '#f5f5f5' : 'white'
                     }}
                 >
-                    <option value={30101}>Ethereum Mainnet (30101)</option>
-                    <option value={30109}>Polygon Mainnet (30109)</option>
+                    {peers ? (
+                        peers.map(peer => (
+                            <option key={peer.eid} value={peer.eid}>
+                                {peer.network} ({peer.eid}) · peer {formatPeerAddress(peer.address)}
+                            </option>
+                        ))
+                    ) : registryDestinations.length > 0 ? (
+                        registryDestinations.map(counterpart => (
+                            <option key={counterpart.eid} value={counterpart.eid}>
+                                {getNetworkName(counterpart.eid)} ({counterpart.eid})
+                            </option>
+                        ))
+                    ) : (
+                        <option value={transferData.dstEid}>
+                            {peersLoading ? 'Loading destinations...' : 'Select an OFT to list its destinations'}
+                        </option>
+                    )}
                 </select>
+                {peersLoading && (
+                    <div className="field-help">
+                        <small>🔎 Discovering destinations from the OFT's on-chain peers...</small>
+                    </div>
+                )}
+                {peersError && (
+                    <div className="validation-error" style={{ color: '#d32f2f', marginTop: '0.5rem' }}>
+                        Could not read peers: {peersError}
+                    </div>
+                )}
+                {peers && peers.length === 0 && (
+                    <div className="validation-error" style={{ color: '#d32f2f', marginTop: '0.5rem' }}>
+                        This OFT has no peers configured on any known endpoint.
+                    </div>
+                )}
+                {selectedPeer && (
+                    <div className="field-help">
+                        <small>
+                            Destination peer: <code style={{ wordBreak: 'break-all' }}>{selectedPeer.address}</code>
+                        </small>
+                    </div>
+                )}
             </div>
 
             <div className="form-group">
@@ -978,9 +1072,26 @@ export function TransferForm({ client, onTransfer, onError }: TransferFormProps)
                     id="to"
                     value={transferData.to}
                     onChange={(e) => handleInputChange('to', e.target.value)}
-                    placeholder="0x1234567890abcdef..."
+                    placeholder={getRecipientPlaceholder(transferData.dstEid)}
                     required
                 />
+                {transferData.to && validateRecipient(transferData.to, transferData.dstEid) && (
+                    <div className="validation-error" style={{ color: '#d32f2f', marginTop: '0.5rem' }}>
+                        {validateRecipient(transferData.to, transferData.dstEid)}
+                    </div>
+                )}
+                {endpointIdToChainType(transferData.dstEid) === ChainType.SOLANA && (
+                    <label htmlFor="includeSolanaRent" style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginTop: '0.5rem' }}>
+                        <input
+                            type="checkbox"
+                            id="includeSolanaRent"
+                            checked={transferData.includeSolanaRent}
+                            onChange={(e) => handleInputChange('includeSolanaRent', e.target.checked)}
+                            style={{ width: 'auto' }}
+                        />
+                        Recipient may not have a token account yet: add {ethers.formatUnits(SOLANA_TOKEN_ACCOUNT_RENT_LAMPORTS, 9)} SOL rent to lzReceive
+                    </label>
+                )}
             </div>
 
             <div className="form-group">
@@ -1015,8 +1126,207 @@ export function TransferForm({ client, onTransfer, onError }: TransferFormProps)
                         Token: {tokenInfo.name} ({tokenInfo.symbol})
                     </small>
                 )}
+                {amountAnalysis?.overflowsSharedDecimals && (
+                    <div className="validation-error" style={{ color: '#d32f2f', marginTop: '0.5rem' }}>
+                        <strong>⚠️ Amount too large:</strong> it does not fit the OFT's uint64 shared-decimals limit and cannot be sent.
+                    </div>
+                )}
+                {amountAnalysis && !amountAnalysis.overflowsSharedDecimals && amountAnalysis.dustLD > 0n && oftConfig && (
+                    <div className="validation-warning" style={{
+                        color: '#f57c00',
+                        marginTop: '0.5rem',
+                        padding: '0.75rem',
+                        background: '#fff3e0',
+                        border: '1px solid #ff9800',
+                        borderRadius: '4px'
+                    }}>
+                        <strong>⚠️ Amount has dust:</strong>
+                        <p>
+                            This OFT bridges with {oftConfig.sharedDecimals ?? 'fewer'} shared decimals. Only{' '}
+                            {formatTokenAmount(amountAnalysis.bridgedAmountLD)} will be bridged;{' '}
+                            {formatTokenAmount(amountAnalysis.dustLD)} stays in your wallet.
+                        </p>
+                        <button type="button" onClick={roundDownAmount} className="btn btn-small">
+                            Round down to {ethers.formatUnits(amountAnalysis.bridgedAmountLD, oftConfig.decimals)}
+                        </button>
+                    </div>
+                )}
             </div>
 
+            <div className="form-group">
+                <label htmlFor="approvalStrategy">Token Approval:</label>
+                <div className="slippage-control">
+                    <select
+                        id="approvalStrategy"
+                        value={transferData.approvalStrategy.kind}
+                        onChange={(e) => handleApprovalStrategyChange(e.target.value as ApprovalStrategy['kind'])}
+                    >
+                        <option value="exact">Exact amount</option>
+                        <option value="capped">Up to a cap</option>
+                        <option value="unlimited">Unlimited</option>
+                    </select>
+                    {transferData.approvalStrategy.kind === 'capped' && (
+                        <input
+                            type="text"
+                            id="approvalCap"
+                            value={transferData.approvalStrategy.cap}
+                            onChange={(e) => setTransferData(prev => ({ ...prev, approvalStrategy: { kind: 'capped', cap: e.target.value } }))}
+                            placeholder={`Cap${tokenInfo ? ` in ${tokenInfo.symbol}` : ''}`}
+                        />
+                    )}
+                </div>
+                {getApprovalStrategyError() && (
+                    <div className="validation-error" style={{ color: '#d32f2f', marginTop: '0.5rem' }}>
+                        {getApprovalStrategyError()}
+                    </div>
+                )}
+                <div className="field-help">
+                    <small>
+                        Used only when the adapter's allowance does not cover the amount.
+                        {transferData.approvalStrategy.kind === 'unlimited' && ' An unlimited approval lets the adapter move all of this token from your wallet until revoked.'}
+                    </small>
+                </div>
+            </div>
+
+            <div className="form-group">
+                <label htmlFor="gasSpeed">Gas Price:</label>
+                <div className="slippage-control">
+                    <select
+                        id="gasSpeed"
+                        value={transferData.gasSettings.speed}
+                        onChange={(e) => handleGasSpeedChange(e.target.value as GasSettings['speed'])}
+                    >
+                        {(['slow', 'normal', 'fast'] as const).map(speed => (
+                            <option key={speed} value={speed}>
+                                {speed[0].toUpperCase() + speed.slice(1)}
+                                {sendCost ? ` (${Number(ethers.formatUnits(sendCost.suggestions[speed].maxFeePerGas, 'gwei')).toFixed(2)} gwei)` : ''}
+                            </option>
+                        ))}
+                        <option value="custom">Custom</option>
+                    </select>
+                    {transferData.gasSettings.speed === 'custom' && (
+                        <>
+                            <input
+                                type="text"
+                                id="maxFeePerGas"
+                                value={transferData.gasSettings.maxFeePerGas}
+                                onChange={(e) => {
+                                    const maxFeePerGas = e.target.value
+                                    setTransferData(prev => prev.gasSettings.speed === 'custom' ? { ...prev, gasSettings: { ...prev.gasSettings, maxFeePerGas } } : prev)
+                                }}
+                                placeholder="Max fee (gwei)"
+                            />
+                            <input
+                                type="text"
+                                id="maxPriorityFeePerGas"
+                                value={transferData.gasSettings.maxPriorityFeePerGas}
+                                onChange={(e) => {
+                                    const maxPriorityFeePerGas = e.target.value
+                                    setTransferData(prev => prev.gasSettings.speed === 'custom' ? { ...prev, gasSettings: { ...prev.gasSettings, maxPriorityFeePerGas } } : prev)
+                                }}
+                                placeholder="Priority fee (gwei)"
+                            />
+                        </>
+                    )}
+                </div>
+                {getGasSettingsError() && (
+                    <div className="validation-error" style={{ color: '#d32f2f', marginTop: '0.5rem' }}>
+                        {getGasSettingsError()}
+                    </div>
+                )}
+                <div className="field-help">
+                    <small>
+                        {sendCost
+                            ? `Base fee ${Number(ethers.formatUnits(sendCost.suggestions.baseFee, 'gwei')).toFixed(2)} gwei. `
+                            : 'Get a quote to see current fees. '}
+                        Presets use the 10th, 50th and 90th percentile priority fees of the last {FEE_HISTORY_BLOCKS} blocks.
+                    </small>
+                </div>
+            </div>
+
+            <div className="form-group">
+                <label htmlFor="payInLzToken" style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                    <input
+                        type="checkbox"
+                        id="payInLzToken"
+                        checked={transferData.payInLzToken}
+                        onChange={(e) => handleInputChange('payInLzToken', e.target.checked)}
+                        style={{ width: 'auto' }}
+                    />
+                    Pay LayerZero fee in lzToken (ZRO)
+                </label>
+                <div className="field-help">
+                    <small>The ZRO fee is pulled by the LayerZero endpoint, so an extra ZRO approval may be requested before sending.</small>
+                </div>
+            </div>
+
+            <div className="form-group">
+                <label htmlFor="slippage">Slippage Tolerance (%):</label>
+                <div className="slippage-control">
+                    {[10, 50, 100].map(bps => (
+                        <button
+                            key={bps}
+                            type="button"
+                            className={`btn btn-small ${transferData.slippageBps === bps ? 'selected' : ''}`}
+                            onClick={() => handleSlippageChange((bps / 100).toString())}
+                        >
+                            {bps / 100}%
+                        </button>
+                    ))}
+                    <input
+                        type="number"
+                        id="slippage"
+                        value={slippageInput}
+                        onChange={(e) => handleSlippageChange(e.target.value)}
+                        min="0"
+                        max={MAX_SLIPPAGE_BPS / 100}
+                        step="0.01"
+                    />
+                </div>
+                {!isSlippageValid(transferData.slippageBps) ? (
+                    <div className="validation-error" style={{ color: '#d32f2f', marginTop: '0.5rem' }}>
+                        <strong>⚠️ Invalid tolerance:</strong> enter a value between 0% and {MAX_SLIPPAGE_BPS / 100}% with at most two decimals.
+                    </div>
+                ) : transferData.slippageBps > HIGH_SLIPPAGE_BPS && (
+                    <div className="validation-warning" style={{
+                        color: '#f57c00',
+                        marginTop: '0.5rem',
+                        padding: '0.75rem',
+                        background: '#fff3e0',
+                        border: '1px solid #ff9800',
+                        borderRadius: '4px'
+                    }}>
+                        <strong>⚠️ High slippage tolerance:</strong> the transfer will go through even if you receive up to{' '}
+                        {transferData.slippageBps / 100}% less than quoted.
+                    </div>
+                )}
+                <div className="field-help">
+                    <small>The minimum received amount is the quoted amount after dust removal and OFT fees, minus this tolerance.</small>
+                </div>
+            </div>
+
+            <details className="form-group options-editor-details">
+                <summary>Advanced: Execution Options &amp; Compose</summary>
+                <ExecutionOptionsEditor
+                    draft={transferData.executorOptions}
+                    onChange={(draft) => setTransferData(prev => ({ ...prev, executorOptions: draft }))}
+                    dstEid={transferData.dstEid}
+                    includeSolanaRent={transferData.includeSolanaRent}
+                />
+                <div className="field-help">
+                    <small>Added on top of the OApp's enforced options. Leave empty to rely on those alone.</small>
+                </div>
+                <ComposeMessageBuilder
+                    composeMsg={transferData.composeMsg}
+                    onChange={(composeMsg) => setTransferData(prev => ({ ...prev, composeMsg }))}
+                    srcEid={currentSrcEid}
+                    amountLD={quote?.oftQuote?.receipt?.amountReceivedLD ?? quote?.amountAnalysis?.bridgedAmountLD}
+                    composeFrom={quote?.composeFrom}
+                    hasComposeOption={hasComposeOption}
+                    onAddComposeOption={addComposeOption}
+                />
+            </details>
+
             <div className="form-actions">
                 <button
                     type="button"
@@ -1030,10 +1340,11 @@ export function TransferForm({ client, onTransfer, onError }: TransferFormProps)
                 <button
                     type="button"
                     onClick={handleTransfer}
-                    disabled={loading || !isFormValid()}
+                    disabled={loading || !isFormValid() || client.isReadOnly()}
                     className="btn btn-primary"
+                    title={client.isReadOnly() ? 'Connect a wallet to send tokens' : undefined}
                 >
-                    {loading ? 'Sending...' : 'Send Tokens'}
+                    {loading ? 'Sending...' : client.isReadOnly() ? 'Connect Wallet to Send' : 'Send Tokens'}
                 </button>
                 
                 <button
@@ -1111,56 +1422,104 @@ export function TransferForm({ client, onTransfer, onError }: TransferFormProps)
                 </button>
             </div>
 
-            {/* Approval Status Indicator */}
-            {approvalStatus !== 'none' && (
+            {transferProgress?.state === 'reviewing' && (
+                <SendReview
+                    preview={transferProgress.preview}
+                    symbol={tokenInfo?.symbol}
+                    onConfirm={() => decideReview(true)}
+                    onCancel={() => decideReview(false)}
+                />
+            )}
+
+            {/* Transfer Progress Indicator */}
+            {transferProgress && transferProgress.state !== 'reviewing' && (
                 <div className="approval-status" style={{
-                    background: approvalStatus === 'approved' ? '#d4edda' : 
-                               approvalStatus === 'failed' ? '#f8d7da' : 
-                               approvalStatus === 'approving' ? '#fff3cd' : '#e2e3e5',
-                    border: approvalStatus === 'approved' ? '1px solid #c3e6cb' : 
-                            approvalStatus === 'failed' ? '1px solid #f5c6cb' : 
-                            approvalStatus === 'approving' ? '1px solid #ffeaa7' : '1px solid #d1ecf1',
+                    background: transferProgress.state === 'confirmed' ? '#d4edda' : 
+                               transferProgress.state === 'failed' ? '#f8d7da' : 
+                               transferProgress.state === 'awaitingApproval' || transferProgress.state === 'approving' ? '#fff3cd' : '#d1ecf1',
+                    border: transferProgress.state === 'confirmed' ? '1px solid #c3e6cb' : 
+                            transferProgress.state === 'failed' ? '1px solid #f5c6cb' : 
+                            transferProgress.state === 'awaitingApproval' || transferProgress.state === 'approving' ? '1px solid #ffeaa7' : '1px solid #bee5eb',
                     borderRadius: '8px',
                     padding: '1rem',
                     marginTop: '1rem',
                     textAlign: 'center'
                 }}>
-                    {approvalStatus === 'checking' && (
+                    {transferProgress.state === 'quoting' && (
                         <div>
                             <div className="spinner" style={{ margin: '0 auto 0.5rem' }}></div>
-                            <strong>Checking token allowance...</strong>
+                            <strong>Quoting and checking balances...</strong>
                         </div>
                     )}
-                    {approvalStatus === 'needed' && (
+                    {transferProgress.state === 'awaitingApproval' && (
+                        transferProgress.plan.batched ? (
+                            <div>
+                                <strong style={{ color: '#0c5460' }}>📦 Approval batched with the transfer</strong>
+                                <p style={{ margin: '0.5rem 0 0 0', fontSize: '0.9rem', color: '#0c5460' }}>
+                                    {transferProgress.plan.method === 'permit'
+                                        ? 'Sign the permit, then confirm the permit and the transfer together in your wallet.'
+                                        : 'You will confirm the approval and the transfer together in your wallet.'}
+                                </p>
+                            </div>
+                        ) : (
+                            <div>
+                                <strong style={{ color: '#856404' }}>
+                                    ⚠️ {transferProgress.asset === 'lzToken' ? 'lzToken (ZRO) approval needed' : 'Token approval needed'}
+                                </strong>
+                                <p style={{ margin: '0.5rem 0 0 0', fontSize: '0.9rem', color: '#856404' }}>
+                                    {transferProgress.asset === 'lzToken'
+                                        ? 'Please confirm the approval that lets the LayerZero endpoint take the fee.'
+                                        : transferProgress.plan.method === 'permit'
+                                            ? 'Please sign the permit, then confirm the transaction that submits it.'
+                                            : 'Please confirm the approval transaction in your wallet.'}
+                                </p>
+                            </div>
+                        )
+                    )}
+                    {transferProgress.state === 'approving' && (
                         <div>
-                            <strong style={{ color: '#856404' }}>⚠️ Token approval needed</strong>
+                            <div className="spinner" style={{ margin: '0 auto 0.5rem' }}></div>
+                            <strong style={{ color: '#856404' }}>{transferProgress.asset === 'lzToken' ? 'Approving lzToken fee...' : 'Approving tokens...'}</strong>
                             <p style={{ margin: '0.5rem 0 0 0', fontSize: '0.9rem', color: '#856404' }}>
-                                You need to approve the OFT adapter to spend your tokens before transferring.
+                                Waiting for <code>{transferProgress.txHash.slice(0, 10)}…</code> to confirm.
                             </p>
                         </div>
                     )}
-                    {approvalStatus === 'approving' && (
+                    {transferProgress.state === 'simulating' && (
                         <div>
                             <div className="spinner" style={{ margin: '0 auto 0.5rem' }}></div>
-                            <strong style={{ color: '#856404' }}>Approving tokens...</strong>
-                            <p style={{ margin: '0.5rem 0 0 0', fontSize: '0.9rem', color: '#856404' }}>
-                                Please confirm the approval transaction in MetaMask.
-                            </p>
+                            <strong>Simulating transfer...</strong>
                         </div>
                     )}
-                    {approvalStatus === 'approved' && (
+                    {transferProgress.state === 'awaitingSignature' && (
                         <div>
-                            <strong style={{ color: '#155724' }}>✅ Token approval successful</strong>
-                            <p style={{ margin: '0.5rem 0 0 0', fontSize: '0.9rem', color: '#155724' }}>
-                                You can now proceed with the transfer.
-                            </p>
+                            <strong style={{ color: '#0c5460' }}>✍️ Confirm the transfer in your wallet</strong>
+                            {transferProgress.batched && (
+                                <p style={{ margin: '0.5rem 0 0 0', fontSize: '0.9rem', color: '#0c5460' }}>
+                                    The approval and the transfer are submitted together.
+                                </p>
+                            )}
                         </div>
                     )}
-                    {approvalStatus === 'failed' && (
+                    {transferProgress.state === 'submitted' && (
                         <div>
-                            <strong style={{ color: '#721c24' }}>❌ Token approval failed</strong>
+                            <div className="spinner" style={{ margin: '0 auto 0.5rem' }}></div>
+                            <strong>Waiting for confirmation...</strong>
+                        </div>
+                    )}
+                    {transferProgress.state === 'confirmed' && (
+                        <div>
+                            <strong style={{ color: '#155724' }}>✅ Transfer confirmed</strong>
+                        </div>
+                    )}
+                    {transferProgress.state === 'failed' && (
+                        <div>
+                            <strong style={{ color: '#721c24' }}>❌ Transfer failed while {transferProgress.failedIn}: {transferProgress.error.code}</strong>
+                            <p style={{ margin: '0.5rem 0 0 0', fontSize: '0.9rem', color: '#721c24' }}>
+                                {transferProgress.error.message}
+                            </p>
                             <p style={{ margin: '0.5rem 0 0 0', fontSize: '0.9rem', color: '#721c24' }}>
-                                Please try the approval again or check your MetaMask connection.
+                                💡 {transferProgress.error.remedy}
                             </p>
                         </div>
                     )}
@@ -1178,6 +1537,154 @@ export function TransferForm({ client, onTransfer, onError }: TransferFormProps)
                         <span>LZ Token Fee:</span>
                         <span>{formatEther(quote.lzTokenFee.toString())} LZ</span>
                     </div>
+                    {pricedCost && (
+                        <>
+                            <div className="quote-item">
+                                <span>Source Gas ({pricedCost.gasLimit.toString()}{pricedCost.approximate ? ', typical' : ''}):</span>
+                                <span>{ethers.formatEther(pricedCost.gasCost)} ETH</span>
+                            </div>
+                            {pricedCost.approvalGasLimit > 0n && (
+                                <div className="quote-item">
+                                    <span>Approval Gas ({pricedCost.approvalGasLimit.toString()}):</span>
+                                    <span>{ethers.formatEther(pricedCost.approvalGasCost)} ETH</span>
+                                </div>
+                            )}
+                            {pricedCost.l1DataFee > 0n && (
+                                <div className="quote-item">
+                                    <span>L1 Data Fee ({pricedCost.l1FeeKind === 'arbitrum' ? 'Arbitrum' : 'OP Stack'}):</span>
+                                    <span>{ethers.formatEther(pricedCost.l1DataFee)} ETH</span>
+                                </div>
+                            )}
+                            <div className="quote-item">
+                                <span>Total Native Cost (max):</span>
+                                <span>{ethers.formatEther(pricedCost.totalNativeCost)} ETH</span>
+                            </div>
+                        </>
+                    )}
+                    {quote.amountAnalysis && (
+                        <div className="quote-item">
+                            <span>Amount Bridged (after dust removal):</span>
+                            <span>{formatTokenAmount(quote.amountAnalysis.bridgedAmountLD)}</span>
+                        </div>
+                    )}
+                    {quote.recipient && quote.recipient.chainType !== 'evm' && (
+                        <div className="quote-item">
+                            <span>Recipient ({quote.recipient.chainType}, bytes32):</span>
+                            <span style={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>{quote.recipient.bytes32}</span>
+                        </div>
+                    )}
+                    {quote.recipient?.solanaRentLamports !== undefined && (
+                        <div className="quote-item">
+                            <span>Solana Token Account Rent:</span>
+                            <span>
+                                {ethers.formatUnits(quote.recipient.solanaRentLamports, 9)} SOL
+                                {quote.recipient.solanaRentIncluded ? ' (included in lzReceive value)' : ' (not included)'}
+                            </span>
+                        </div>
+                    )}
+                    <div className="quote-item">
+                        <span>Minimum Received{quote.slippageBps !== undefined ? ` (${quote.slippageBps / 100}% slippage)` : ''}:</span>
+                        <span>{formatTokenAmount(quote.minAmountLD)}</span>
+                    </div>
+                    {quote.feeOptions && (
+                        <div className="fee-comparison">
+                            <div className={`fee-option ${!transferData.payInLzToken ? 'selected' : ''}`}>
+                                <strong>Pay in native</strong>
+                                <span>{ethers.formatEther(quote.feeOptions.native.nativeFee)} native</span>
+                            </div>
+                            <div className={`fee-option ${transferData.payInLzToken ? 'selected' : ''}`}>
+                                <strong>Pay in {quote.lzTokenStatus?.symbol ?? 'ZRO'}</strong>
+                                {quote.feeOptions.lzToken ? (
+                                    <>
+                                        <span>{ethers.formatEther(quote.feeOptions.lzToken.lzTokenFee)} {quote.lzTokenStatus?.symbol ?? 'ZRO'}</span>
+                                        <span>+ {ethers.formatEther(quote.feeOptions.lzToken.nativeFee)} native</span>
+                                        {quote.lzTokenStatus?.balance !== undefined && (
+                                            <small>Balance: {ethers.formatEther(quote.lzTokenStatus.balance)}</small>
+                                        )}
+                                        {quote.lzTokenStatus?.allowance !== undefined && quote.lzTokenStatus.allowance < quote.feeOptions.lzToken.lzTokenFee && (
+                                            <small>Endpoint approval needed</small>
+                                        )}
+                                    </>
+                                ) : (
+                                    <span>Not available on this pathway</span>
+                                )}
+                            </div>
+                        </div>
+                    )}
+                    {quote.effectiveOptions && (
+                        <div className="effective-options">
+                            <strong>
+                                Effective Executor Options ({quote.effectiveOptions.msgType === MSG_TYPE_SEND_AND_CALL ? 'SEND_AND_CALL' : 'SEND'}
+                                {quote.effectiveOptions.source === 'local' ? ', merged locally' : ''})
+                            </strong>
+                            <div className="quote-item">
+                                <span>Enforced by OApp:</span>
+                                <span>{ethers.dataLength(quote.effectiveOptions.enforcedOptions) > 0 ? 'yes' : 'none'}</span>
+                            </div>
+                            <div className="quote-item">
+                                <span>lzReceive Gas / Value:</span>
+                                <span>{quote.effectiveOptions.summary.lzReceiveGas.toString()} / {quote.effectiveOptions.summary.lzReceiveValue.toString()}</span>
+                            </div>
+                            {quote.effectiveOptions.summary.compose.map(compose => (
+                                <div className="quote-item" key={compose.index}>
+                                    <span>lzCompose #{compose.index} Gas / Value:</span>
+                                    <span>{compose.gas.toString()} / {compose.value.toString()}</span>
+                                </div>
+                            ))}
+                            {quote.effectiveOptions.summary.nativeDrops.map((drop, index) => (
+                                <div className="quote-item" key={index}>
+                                    <span>Native Drop:</span>
+                                    <span>{drop.amount.toString()} → {drop.receiver}</span>
+                                </div>
+                            ))}
+                            {quote.effectiveOptions.summary.orderedExecution && (
+                                <div className="quote-item">
+                                    <span>Ordered Execution:</span>
+                                    <span>yes</span>
+                                </div>
+                            )}
+                            {quote.effectiveOptions.warnings.map((warning, index) => (
+                                <div className="validation-warning" key={index} style={{ color: '#f57c00', marginTop: '0.25rem' }}>
+                                    ⚠️ {warning}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                    {quote.oftQuote && (
+                        <>
+                            <div className="quote-item">
+                                <span>Min Amount:</span>
+                                <span>{formatTokenAmount(quote.oftQuote.limit.minAmountLD)}</span>
+                            </div>
+                            <div className="quote-item">
+                                <span>Max Amount:</span>
+                                <span>{formatTokenAmount(quote.oftQuote.limit.maxAmountLD)}</span>
+                            </div>
+                            {quote.oftQuote.feeDetails.map((detail, index) => (
+                                <div className="quote-item" key={index}>
+                                    <span>OFT Fee ({detail.description || 'unnamed'}):</span>
+                                    <span>{formatTokenAmount(detail.feeAmountLD)}</span>
+                                </div>
+                            ))}
+                            {quote.oftQuote.receipt && (
+                                <>
+                                    <div className="quote-item">
+                                        <span>Amount Sent:</span>
+                                        <span>{formatTokenAmount(quote.oftQuote.receipt.amountSentLD)}</span>
+                                    </div>
+                                    <div className="quote-item">
+                                        <span>Expected Received:</span>
+                                        <span>{formatTokenAmount(quote.oftQuote.receipt.amountReceivedLD)}</span>
+                                    </div>
+                                </>
+                            )}
+                            {quote.oftQuote.source === 'probe' && (
+                                <small style={{ color: '#6c757d' }}>
+                                    This adapter has no quoteOFT; limits were found by probing quoteSend in shared-decimals steps.
+                                </small>
+                            )}
+                        </>
+                    )}
                 </div>
             )}
 
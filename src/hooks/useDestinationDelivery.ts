@@ -0,0 +1,58 @@
+import { useEffect, useState } from 'react'
+import type { DestinationDelivery, OFTClient, SendResult } from '../lib'
+import { rpcOverrides } from './useReadOnlyClient'
+
+export interface UseDestinationDeliveryReturn {
+    delivery: DestinationDelivery | null
+    watching: boolean
+    error: string | null
+}
+
+/**
+ * Watch the destination chain for the OFTReceived event of a sent message,
+ * independently of LayerZero Scan
+ */
+export function useDestinationDelivery(result: SendResult | null, client: OFTClient | null): UseDestinationDeliveryReturn {
+    const [delivery, setDelivery] = useState<DestinationDelivery | null>(null)
+    const [watching, setWatching] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+
+    const guid = result?.message?.guid
+    const dstEid = result?.message?.dstEid
+    const oftAddress = result?.oftAddress
+
+    useEffect(() => {
+        setDelivery(null)
+        setError(null)
+        setWatching(false)
+        if (!client || !guid || dstEid === undefined || !oftAddress) return
+
+        let stop: (() => void) | null = null
+        let cancelled = false
+
+        client.watchDestinationDelivery(
+            { oftAddress, dstEid, guid, rpcUrls: rpcOverrides },
+            found => {
+                setDelivery(found)
+                setWatching(false)
+            },
+            { onError: err => setError(err.message) }
+        ).then(stopWatching => {
+            if (cancelled) {
+                stopWatching()
+                return
+            }
+            stop = stopWatching
+            setWatching(true)
+        }).catch(err => {
+            if (!cancelled) setError(err instanceof Error ? err.message : String(err))
+        })
+
+        return () => {
+            cancelled = true
+            stop?.()
+        }
+    }, [client, guid, dstEid, oftAddress])
+
+    return { delivery, watching, error }
+}
@@ -0,0 +1,42 @@
+import { useEffect, useState } from 'react'
+import { trackMessage } from '../lib'
+import type { MessageStatusUpdate, SendResult } from '../lib'
+
+export interface UseMessageTrackerReturn {
+    update: MessageStatusUpdate | null
+    error: string | null
+}
+
+/**
+ * Poll LayerZero Scan for the delivery status of a sent message.
+ * VITE_LZ_SCAN_API_URL overrides the API base URL (e.g. a local mock server).
+ */
+export function useMessageTracker(result: SendResult | null): UseMessageTrackerReturn {
+    const [update, setUpdate] = useState<MessageStatusUpdate | null>(null)
+    const [error, setError] = useState<string | null>(null)
+
+    const txHash = result?.txHash
+    const guid = result?.message?.guid
+    const srcEid = result?.srcEid
+
+    useEffect(() => {
+        setUpdate(null)
+        setError(null)
+        if (!txHash || srcEid === undefined) return
+
+        return trackMessage(
+            { txHash, guid },
+            next => {
+                setUpdate(next)
+                setError(null)
+            },
+            {
+                apiBaseUrl: import.meta.env.VITE_LZ_SCAN_API_URL || undefined,
+                isTestnet: srcEid >= 40_000 && srcEid < 50_000,
+                onError: err => setError(err.message)
+            }
+        )
+    }, [txHash, guid, srcEid])
+
+    return { update, error }
+}
@@ -1,5 +1,8 @@
 import { useState, useEffect, useCallback } from 'react'
-import { OFTClient, isMetaMaskInstalled, getMetaMaskProvider, requestMetaMaskAccounts } from '../lib'
+import { OFTClient, requestMetaMaskAccounts, discoverWallets, findWalletByRdns } from '../lib'
+import type { WalletDetail } from '../lib'
+
+const SELECTED_WALLET_KEY = 'lzsent:selectedWallet'
 
 export interface UseOFTClientReturn {
     client: OFTClient | null
@@ -8,10 +11,32 @@ export interface UseOFTClientReturn {
     error: string | null
     address: string | null
     chainId: number | null
-    connect: () => Promise<void>
+    wallets: WalletDetail[]
+    selectedWallet: WalletDetail | null
+    connect: (wallet?: WalletDetail) => Promise<void>
     disconnect: () => void
 }
 
+function loadSelectedWalletRdns(): string | null {
+    try {
+        return localStorage.getItem(SELECTED_WALLET_KEY)
+    } catch {
+        return null
+    }
+}
+
+function saveSelectedWalletRdns(rdns: string | null) {
+    try {
+        if (rdns) {
+            localStorage.setItem(SELECTED_WALLET_KEY, rdns)
+        } else {
+            localStorage.removeItem(SELECTED_WALLET_KEY)
+        }
+    } catch {
+        // Storage may be unavailable (private mode), remembering the wallet is best effort
+    }
+}
+
 export function useOFTClient(): UseOFTClientReturn {
     const [client, setClient] = useState<OFTClient | null>(null)
     const [isConnected, setIsConnected] = useState(false)
@@ -19,29 +44,38 @@ export function useOFTClient(): UseOFTClientReturn {
     const [error, setError] = useState<string | null>(null)
     const [address, setAddress] = useState<string | null>(null)
     const [chainId, setChainId] = useState<number | null>(null)
+    const [wallets, setWallets] = useState<WalletDetail[]>([])
+    const [selectedWallet, setSelectedWallet] = useState<WalletDetail | null>(null)
 
-    const connect = useCallback(async () => {
+    // Discover injected wallets (EIP-6963) and preselect the remembered one
+    useEffect(() => {
+        return discoverWallets(discovered => {
+            setWallets(discovered)
+            setSelectedWallet(current => current ?? findWalletByRdns(discovered, loadSelectedWalletRdns()) ?? null)
+        })
+    }, [])
+
+    const connect = useCallback(async (wallet?: WalletDetail) => {
         setLoading(true)
         setError(null)
-        
+
         try {
-            // Check if MetaMask is installed
-            if (!isMetaMaskInstalled()) {
-                throw new Error('MetaMask is not installed. Please install MetaMask extension.')
+            const target = wallet ?? selectedWallet ?? (wallets.length === 1 ? wallets[0] : null)
+            if (!target) {
+                throw new Error(wallets.length === 0
+                    ? 'No browser wallet found. Please install a wallet extension.'
+                    : 'Please choose a wallet to connect.')
             }
 
-            // Get MetaMask provider
-            const provider = getMetaMaskProvider()
-
             // Request account access
-            const accounts = await requestMetaMaskAccounts()
+            const accounts = await requestMetaMaskAccounts(target.provider)
             if (accounts.length === 0) {
-                throw new Error('No accounts found. Please connect MetaMask.')
+                throw new Error(`No accounts found. Please unlock ${target.info.name}.`)
             }
 
             // Create OFT client
-            const oftClient = new OFTClient(provider)
-            
+            const oftClient = new OFTClient(target.provider)
+
             // Get current address and chain ID
             const currentAddress = await oftClient.getSignerAddress()
             const currentChainId = await oftClient.getChainId()
@@ -50,8 +84,10 @@ export function useOFTClient(): UseOFTClientReturn {
             setIsConnected(true)
             setAddress(currentAddress)
             setChainId(currentChainId)
+            setSelectedWallet(target)
+            saveSelectedWalletRdns(target.info.rdns)
 
-            console.log('Connected to MetaMask:', currentAddress)
+            console.log(`Connected to ${target.info.name}:`, currentAddress)
         } catch (err) {
             const errorMessage = err instanceof Error ? err.message : 'Failed to connect'
             setError(errorMessage)
@@ -59,7 +95,7 @@ export function useOFTClient(): UseOFTClientReturn {
         } finally {
             setLoading(false)
         }
-    }, [])
+    }, [selectedWallet, wallets])
 
     const disconnect = useCallback(() => {
         setClient(null)
@@ -69,9 +105,9 @@ export function useOFTClient(): UseOFTClientReturn {
         setError(null)
     }, [])
 
-    // Listen for account changes
+    // Listen for account changes on the selected wallet
     useEffect(() => {
-        if (!isConnected) return
+        if (!isConnected || !selectedWallet) return
 
         const handleAccountsChanged = (accounts: unknown) => {
             const accountArray = accounts as string[]
@@ -87,15 +123,15 @@ export function useOFTClient(): UseOFTClientReturn {
             window.location.reload()
         }
 
-        const provider = getMetaMaskProvider()
-        provider.on('accountsChanged', handleAccountsChanged)
-        provider.on('chainChanged', handleChainChanged)
+        const provider = selectedWallet.provider
+        provider.on?.('accountsChanged', handleAccountsChanged)
+        provider.on?.('chainChanged', handleChainChanged)
 
         return () => {
-            provider.removeListener('accountsChanged', handleAccountsChanged)
-            provider.removeListener('chainChanged', handleChainChanged)
+            provider.removeListener?.('accountsChanged', handleAccountsChanged)
+            provider.removeListener?.('chainChanged', handleChainChanged)
         }
-    }, [isConnected, disconnect])
+    }, [isConnected, selectedWallet, disconnect])
 
     return {
         client,
@@ -104,7 +140,9 @@ export function useOFTClient(): UseOFTClientReturn {
         error,
         address,
         chainId,
+        wallets,
+        selectedWallet,
         connect,
         disconnect
     }
-} 
\ No newline at end of file
+}
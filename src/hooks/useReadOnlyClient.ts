@@ -0,0 +1,40 @@
+import { useMemo, useState } from 'react'
+import { OFTClient } from '../lib'
+import type { RpcUrls } from '../lib'
+
+export interface UseReadOnlyClientReturn {
+    client: OFTClient | null
+    eid: number
+    setEid: (eid: number) => void
+    error: string | null
+}
+
+/**
+ * Parse per-EID RPC overrides from VITE_RPC_URLS, e.g. {"30101":"https://..."}
+ */
+function loadRpcOverrides(): RpcUrls {
+    const raw = import.meta.env.VITE_RPC_URLS
+    if (!raw) return {}
+    try {
+        return JSON.parse(raw) as RpcUrls
+    } catch {
+        console.error('Ignoring invalid VITE_RPC_URLS, expected a JSON object keyed by EID')
+        return {}
+    }
+}
+
+export const rpcOverrides = loadRpcOverrides()
+
+export function useReadOnlyClient(initialEid = 30101): UseReadOnlyClientReturn {
+    const [eid, setEid] = useState(initialEid)
+
+    const { client, error } = useMemo(() => {
+        try {
+            return { client: OFTClient.readOnly(eid, rpcOverrides), error: null }
+        } catch (err) {
+            return { client: null, error: err instanceof Error ? err.message : 'Failed to create read-only client' }
+        }
+    }, [eid])
+
+    return { client, eid, setEid, error }
+}
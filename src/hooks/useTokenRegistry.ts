@@ -0,0 +1,39 @@
+import { useEffect, useState } from 'react'
+import { loadTokenRegistry, DEFAULT_TOKEN_REGISTRY_URL } from '../lib'
+import type { TokenRegistry } from '../lib'
+
+export interface UseTokenRegistryReturn {
+    registry: TokenRegistry | null
+    loading: boolean
+    error: string | null
+}
+
+/**
+ * Load the token registry once, from VITE_TOKEN_REGISTRY_URL when set
+ */
+export function useTokenRegistry(): UseTokenRegistryReturn {
+    const [registry, setRegistry] = useState<TokenRegistry | null>(null)
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState<string | null>(null)
+
+    useEffect(() => {
+        let cancelled = false
+        loadTokenRegistry(import.meta.env.VITE_TOKEN_REGISTRY_URL || DEFAULT_TOKEN_REGISTRY_URL)
+            .then(loaded => {
+                if (!cancelled) setRegistry(loaded)
+            })
+            .catch(err => {
+                console.error('Failed to load token registry:', err)
+                if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load token registry')
+            })
+            .finally(() => {
+                if (!cancelled) setLoading(false)
+            })
+
+        return () => {
+            cancelled = true
+        }
+    }, [])
+
+    return { registry, loading, error }
+}
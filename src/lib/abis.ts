@@ -0,0 +1,109 @@
+// IOFT ABI - comprehensive interface for OFT operations
+export const IOFT_ABI = [
+    'function token() external view returns (address)',
+    'function approvalRequired() external view returns (bool)',
+    'function quoteSend(tuple(uint32 dstEid, bytes32 to, uint256 amountLD, uint256 minAmountLD, bytes extraOptions, bytes composeMsg, bytes oftCmd) sendParam, bool payInLzToken) external view returns (uint256 nativeFee, uint256 lzTokenFee)',
+    'function quoteOFT(tuple(uint32 dstEid, bytes32 to, uint256 amountLD, uint256 minAmountLD, bytes extraOptions, bytes composeMsg, bytes oftCmd) sendParam) external view returns (tuple(uint256 minAmountLD, uint256 maxAmountLD) oftLimit, tuple(int256 feeAmountLD, string description)[] oftFeeDetails, tuple(uint256 amountSentLD, uint256 amountReceivedLD) oftReceipt)',
+    'function send(tuple(uint32 dstEid, bytes32 to, uint256 amountLD, uint256 minAmountLD, bytes extraOptions, bytes composeMsg, bytes oftCmd) sendParam, tuple(uint256 nativeFee, uint256 lzTokenFee) fee, address refundAddress) external payable returns (tuple(bytes32 guid, uint64 nonce, tuple(uint256 nativeFee, uint256 lzTokenFee) fee) msgReceipt, tuple(uint256 amountSentLD, uint256 amountReceivedLD) oftReceipt)',
+    'function decimals() external view returns (uint8)',
+    'function symbol() external view returns (string)',
+    'function name() external view returns (string)',
+    'function peers(uint32 eid) external view returns (bytes32)',
+    'function endpoint() external view returns (address)',
+    'function sharedDecimals() external view returns (uint8)',
+    'function decimalConversionRate() external view returns (uint256)',
+    'function enforcedOptions(uint32 eid, uint16 msgType) external view returns (bytes)',
+    'function combineOptions(uint32 eid, uint16 msgType, bytes extraOptions) external view returns (bytes)',
+    'event OFTSent(bytes32 indexed guid, uint32 dstEid, address indexed fromAddress, uint256 amountSentLD, uint256 amountReceivedLD)',
+    'event OFTReceived(bytes32 indexed guid, uint32 srcEid, address indexed toAddress, uint256 amountReceivedLD)'
+]
+
+// IERC20 ABI - minimal interface for ERC20 operations
+export const IERC20_ABI = [
+    'function decimals() external view returns (uint8)',
+    'function symbol() external view returns (string)',
+    'function balanceOf(address owner) external view returns (uint256)',
+    'function allowance(address owner, address spender) external view returns (uint256)',
+    'function approve(address spender, uint256 amount) external returns (bool)'
+]
+
+// EIP-2612 permit and the EIP-712 domain reads needed to sign it
+export const ERC20_PERMIT_ABI = [
+    'function name() external view returns (string)',
+    'function version() external view returns (string)',
+    'function nonces(address owner) external view returns (uint256)',
+    'function DOMAIN_SEPARATOR() external view returns (bytes32)',
+    'function eip712Domain() external view returns (bytes1 fields, string name, string version, uint256 chainId, address verifyingContract, bytes32 salt, uint256[] extensions)',
+    'function permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s) external'
+]
+
+// EndpointV2 ABI - lzToken lookup and events emitted while sending a message
+export const ENDPOINT_V2_ABI = [
+    'function lzToken() external view returns (address)',
+    'event PacketSent(bytes encodedPayload, bytes options, address sendLibrary)'
+]
+
+// Multicall3, deployed at the same address on most EVM chains
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11'
+export const MULTICALL3_ABI = [
+    'function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) external payable returns (tuple(bool success, bytes returnData)[] returnData)'
+]
+
+// Custom errors an OFT send can revert with, used to decode revert data
+export const OFT_ERRORS_ABI = [
+    'error SlippageExceeded(uint256 amountLD, uint256 minAmountLD)',
+    'error InvalidLocalDecimals()',
+    'error AmountSDOverflowed(uint256 amountSD)',
+    'error NoPeer(uint32 eid)',
+    'error OnlyPeer(uint32 eid, bytes32 sender)',
+    'error NotEnoughNative(uint256 msgValue)',
+    'error LzTokenUnavailable()',
+    'error InvalidOptions(bytes options)'
+]
+
+// EndpointV2, send library (ULN) and executor errors surfaced through OFT.send
+export const ENDPOINT_ERRORS_ABI = [
+    'error LZ_InsufficientFee(uint256 requiredNative, uint256 suppliedNative, uint256 requiredLzToken, uint256 suppliedLzToken)',
+    'error LZ_ZeroLzTokenFee()',
+    'error LZ_LzTokenUnavailable()',
+    'error LZ_DefaultSendLibUnavailable()',
+    'error LZ_ULN_InvalidWorkerOptions(uint256 cursor)',
+    'error LZ_ULN_InvalidWorkerId(uint8 workerId)',
+    'error LZ_ULN_UnsupportedOptionType(uint8 optionType)',
+    'error LZ_MessageLib_InvalidMessageSize(uint256 actual, uint256 max)',
+    'error Executor_UnsupportedOptionType(uint8 optionType)',
+    'error Executor_ZeroLzReceiveGasProvided()',
+    'error Executor_ZeroLzComposeGasProvided()',
+    'error Executor_NativeAmountExceedsCap(uint256 amount, uint256 cap)'
+]
+
+// LayerZero RateLimiter, used by rate-limited OFT adapters
+export const RATE_LIMITER_ERRORS_ABI = [
+    'error RateLimitExceeded()'
+]
+
+// OpenZeppelin v5 ERC-20, permit and access errors
+export const ERC20_ERRORS_ABI = [
+    'error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)',
+    'error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)',
+    'error ERC20InvalidSender(address sender)',
+    'error ERC20InvalidReceiver(address receiver)',
+    'error ERC20InvalidApprover(address approver)',
+    'error ERC20InvalidSpender(address spender)',
+    'error ERC2612ExpiredSignature(uint256 deadline)',
+    'error ERC2612InvalidSigner(address signer, address owner)',
+    'error SafeERC20FailedOperation(address token)',
+    'error EnforcedPause()'
+]
+
+// OP-stack GasPriceOracle predeploy, prices the L1 data part of a transaction
+export const OP_GAS_PRICE_ORACLE_ADDRESS = '0x420000000000000000000000000000000000000F'
+export const OP_GAS_PRICE_ORACLE_ABI = [
+    'function getL1Fee(bytes _data) external view returns (uint256)'
+]
+
+// Arbitrum NodeInterface, a virtual contract answered by the node itself
+export const ARBITRUM_NODE_INTERFACE_ADDRESS = '0x00000000000000000000000000000000000000C8'
+export const ARBITRUM_NODE_INTERFACE_ABI = [
+    'function gasEstimateComponents(address to, bool contractCreation, bytes data) external payable returns (uint64 gasEstimate, uint64 gasEstimateForL1, uint256 baseFee, uint256 l1BaseFeeEstimate)'
+]
@@ -0,0 +1,87 @@
+import { ethers } from 'ethers'
+import { ChainType, endpointIdToChainType } from '@layerzerolabs/lz-definitions'
+
+// Rent-exempt minimum for an SPL token account, paid by the executor when the recipient has none yet
+export const SOLANA_TOKEN_ACCOUNT_RENT_LAMPORTS = 2_039_280n
+
+// Move-style chains whose addresses are 32-byte hex values
+const HEX32_CHAIN_TYPES: readonly ChainType[] = [ChainType.APTOS, ChainType.INITIA, ChainType.SUI]
+
+/**
+ * Encode a recipient address for SendParam.to on the destination chain type.
+ * EVM addresses are left-padded, Solana base58 public keys are decoded and
+ * Move-style 32-byte hex addresses are padded to bytes32.
+ */
+export function encodeRecipient(address: string, dstEid: number): string {
+    const chainType = endpointIdToChainType(dstEid)
+    const value = address.trim()
+
+    if (chainType === ChainType.EVM) {
+        if (!ethers.isAddress(value)) {
+            throw new Error(`Invalid EVM recipient address: ${address}`)
+        }
+        return ethers.zeroPadValue(ethers.getAddress(value), 32)
+    }
+
+    if (chainType === ChainType.SOLANA) {
+        let decoded: bigint
+        try {
+            decoded = ethers.decodeBase58(value)
+        } catch {
+            throw new Error(`Invalid Solana recipient address: ${address} is not base58`)
+        }
+        if (decoded >= 2n ** 256n || value.length < 32 || value.length > 44) {
+            throw new Error(`Invalid Solana recipient address: ${address} is not a 32-byte public key`)
+        }
+        return ethers.toBeHex(decoded, 32)
+    }
+
+    if (HEX32_CHAIN_TYPES.includes(chainType)) {
+        if (!/^0x[0-9a-fA-F]{1,64}$/.test(value)) {
+            throw new Error(`Invalid ${chainType} recipient address: expected 0x followed by up to 64 hex characters`)
+        }
+        return ethers.zeroPadValue(value.length % 2 === 0 ? value : `0x0${value.slice(2)}`, 32).toLowerCase()
+    }
+
+    throw new Error(`Recipients on ${chainType} chains (dstEid ${dstEid}) are not supported`)
+}
+
+/**
+ * Check a recipient address against the destination chain type, returning an error message or null
+ */
+export function validateRecipient(address: string, dstEid: number): string | null {
+    try {
+        encodeRecipient(address, dstEid)
+        return null
+    } catch (error) {
+        return error instanceof Error ? error.message : String(error)
+    }
+}
+
+/**
+ * Turn a bytes32 recipient back into the native address format of the destination chain
+ */
+export function decodeRecipient(bytes32: string, dstEid: number): string {
+    const chainType = endpointIdToChainType(dstEid)
+    if (chainType === ChainType.EVM) {
+        return ethers.getAddress(ethers.dataSlice(bytes32, 12))
+    }
+    if (chainType === ChainType.SOLANA) {
+        return ethers.encodeBase58(bytes32)
+    }
+    return ethers.hexlify(bytes32)
+}
+
+/**
+ * Placeholder shown in recipient inputs for a destination chain
+ */
+export function getRecipientPlaceholder(dstEid: number): string {
+    switch (endpointIdToChainType(dstEid)) {
+        case ChainType.SOLANA:
+            return 'Base58 public key, e.g. 7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU'
+        case ChainType.EVM:
+            return '0x1234567890abcdef...'
+        default:
+            return '0x followed by a 32-byte hex address'
+    }
+}
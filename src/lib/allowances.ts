@@ -0,0 +1,63 @@
+import { ethers } from 'ethers'
+
+import type { TokenDeployment } from './registry'
+
+/**
+ * How much to approve when a send needs an allowance:
+ * exactly the amount, a fixed cap in token units covering several sends, or unlimited
+ */
+export type ApprovalStrategy =
+    | { kind: 'exact' }
+    | { kind: 'capped'; cap: string }
+    | { kind: 'unlimited' }
+
+export const DEFAULT_APPROVAL_STRATEGY: ApprovalStrategy = { kind: 'exact' }
+
+// Wallets and tokens often decrement "infinite" approvals, so anything above half of uint256 counts as unlimited
+const UNLIMITED_ALLOWANCE_THRESHOLD = ethers.MaxUint256 / 2n
+
+/**
+ * The connected account's allowance to one registered adapter
+ */
+export interface AdapterAllowance {
+    deployment: TokenDeployment
+    token: string
+    allowance: bigint
+    unlimited: boolean
+}
+
+export function isUnlimitedAllowance(allowance: bigint): boolean {
+    return allowance >= UNLIMITED_ALLOWANCE_THRESHOLD
+}
+
+/**
+ * Amount to approve for a send of amountLD under a strategy.
+ * A cap below the amount is rejected rather than silently raised.
+ */
+export function resolveApprovalAmount(strategy: ApprovalStrategy, amountLD: bigint, decimals: number): bigint {
+    switch (strategy.kind) {
+        case 'exact':
+            return amountLD
+        case 'unlimited':
+            return ethers.MaxUint256
+        case 'capped': {
+            let capLD: bigint
+            try {
+                capLD = ethers.parseUnits(strategy.cap.trim(), decimals)
+            } catch {
+                throw new Error(`Invalid approval cap "${strategy.cap}"`)
+            }
+            if (capLD < amountLD) {
+                throw new Error(`Approval cap ${strategy.cap} is below the amount being sent (${ethers.formatUnits(amountLD, decimals)})`)
+            }
+            return capLD
+        }
+    }
+}
+
+/**
+ * Human-readable allowance, "Unlimited" for max approvals
+ */
+export function formatAllowance(allowance: bigint, decimals: number): string {
+    return isUnlimitedAllowance(allowance) ? 'Unlimited' : ethers.formatUnits(allowance, decimals)
+}
@@ -0,0 +1,68 @@
+import { parseUnits } from 'ethers'
+
+// OFT amounts travel in shared decimals as uint64
+export const MAX_SHARED_AMOUNT_SD = 2n ** 64n - 1n
+
+/**
+ * Breakdown of a user-entered amount into what the OFT will actually bridge
+ */
+export interface AmountAnalysis {
+    amountLD: bigint
+    // Amount left after dust removal, this is what gets debited and bridged
+    bridgedAmountLD: bigint
+    // Part of amountLD below shared-decimals precision, stays in the sender's wallet
+    dustLD: bigint
+    amountSD: bigint
+    overflowsSharedDecimals: boolean
+}
+
+/**
+ * Strip the part of an amount that cannot be represented in shared decimals
+ */
+export function removeDust(amountLD: bigint, decimalConversionRate: bigint): bigint {
+    if (decimalConversionRate <= 1n) return amountLD
+    return (amountLD / decimalConversionRate) * decimalConversionRate
+}
+
+/**
+ * Conversion rate between local and shared decimals, 10^(local - shared)
+ */
+export function getDecimalConversionRate(localDecimals: number, sharedDecimals: number): bigint {
+    if (sharedDecimals > localDecimals) {
+        throw new Error(`Shared decimals (${sharedDecimals}) exceed local decimals (${localDecimals})`)
+    }
+    return 10n ** BigInt(localDecimals - sharedDecimals)
+}
+
+/**
+ * Parse a human amount and work out dust and the shared-decimals representation.
+ * Without a conversion rate the amount is assumed to have no dust.
+ */
+export function analyzeAmount(amount: string, decimals: number, decimalConversionRate = 1n): AmountAnalysis {
+    const amountLD = parseUnits(amount, decimals)
+    const bridgedAmountLD = removeDust(amountLD, decimalConversionRate)
+    const amountSD = bridgedAmountLD / (decimalConversionRate > 0n ? decimalConversionRate : 1n)
+
+    return {
+        amountLD,
+        bridgedAmountLD,
+        dustLD: amountLD - bridgedAmountLD,
+        amountSD,
+        overflowsSharedDecimals: amountSD > MAX_SHARED_AMOUNT_SD
+    }
+}
+
+export const DEFAULT_SLIPPAGE_BPS = 50
+// Above this tolerance the UI warns that a large part of the transfer may be lost to fees
+export const HIGH_SLIPPAGE_BPS = 300
+export const MAX_SLIPPAGE_BPS = 10_000
+
+/**
+ * Minimum acceptable amount for a given slippage tolerance in basis points
+ */
+export function applySlippage(expectedAmountLD: bigint, slippageBps: number): bigint {
+    if (!Number.isInteger(slippageBps) || slippageBps < 0 || slippageBps > MAX_SLIPPAGE_BPS) {
+        throw new Error(`Invalid slippage tolerance ${slippageBps} bps: expected an integer between 0 and ${MAX_SLIPPAGE_BPS}`)
+    }
+    return (expectedAmountLD * BigInt(MAX_SLIPPAGE_BPS - slippageBps)) / BigInt(MAX_SLIPPAGE_BPS)
+}
@@ -0,0 +1,107 @@
+import { ethers } from 'ethers'
+
+import type { Eip1193Provider } from './types'
+
+// EIP-5792 wallet_getCallsStatus codes; 1xx pending, 2xx confirmed, 4xx-6xx failed
+const CALLS_STATUS_CONFIRMED = 200
+const CALLS_STATUS_FAILED_MIN = 400
+
+export interface WalletCall {
+    to: string
+    data: string
+    value?: bigint
+}
+
+export interface CallsWaitOptions {
+    intervalMs?: number
+    timeoutMs?: number
+}
+
+interface CallsCapabilities {
+    atomic?: { status?: string }
+    // Pre-2.0 wallets report atomic batching this way
+    atomicBatch?: { supported?: boolean }
+}
+
+interface CallsStatus {
+    status: number | string
+    receipts?: { transactionHash: string; status?: string }[]
+}
+
+function toChainIdHex(chainId: bigint | number): string {
+    return ethers.toQuantity(chainId)
+}
+
+/**
+ * Whether the wallet can execute several calls atomically through wallet_sendCalls (EIP-5792)
+ */
+export async function supportsAtomicBatch(wallet: Eip1193Provider, account: string, chainId: bigint | number): Promise<boolean> {
+    const chainIdHex = toChainIdHex(chainId)
+    try {
+        const capabilities = await wallet.request({
+            method: 'wallet_getCapabilities',
+            params: [account, [chainIdHex]]
+        }) as Record<string, CallsCapabilities> | undefined
+        const forChain = capabilities?.[chainIdHex] ?? capabilities?.['0x0']
+        if (!forChain) return false
+        if (forChain.atomic?.status) return forChain.atomic.status === 'supported' || forChain.atomic.status === 'ready'
+        return forChain.atomicBatch?.supported === true
+    } catch (error) {
+        console.log('wallet_getCapabilities not available:', error)
+        return false
+    }
+}
+
+/**
+ * Submit calls as one atomic wallet_sendCalls batch and return the batch id
+ */
+export async function sendCalls(wallet: Eip1193Provider, account: string, chainId: bigint | number, calls: WalletCall[]): Promise<string> {
+    const result = await wallet.request({
+        method: 'wallet_sendCalls',
+        params: [{
+            version: '2.0.0',
+            from: account,
+            chainId: toChainIdHex(chainId),
+            atomicRequired: true,
+            calls: calls.map(call => ({
+                to: call.to,
+                data: call.data,
+                value: ethers.toQuantity(call.value ?? 0n)
+            }))
+        }]
+    }) as string | { id: string }
+    return typeof result === 'string' ? result : result.id
+}
+
+function isConfirmed(status: CallsStatus['status']): boolean {
+    return typeof status === 'number' ? status === CALLS_STATUS_CONFIRMED : status.toUpperCase() === 'CONFIRMED'
+}
+
+function isFailed(status: CallsStatus['status']): boolean {
+    return typeof status === 'number' ? status >= CALLS_STATUS_FAILED_MIN : status.toUpperCase() === 'FAILED'
+}
+
+/**
+ * Poll wallet_getCallsStatus until the batch is confirmed, returning its transaction hashes in call order
+ */
+export async function waitForCalls(wallet: Eip1193Provider, id: string, options: CallsWaitOptions = {}): Promise<string[]> {
+    const intervalMs = options.intervalMs ?? 2_000
+    const deadline = Date.now() + (options.timeoutMs ?? 10 * 60_000)
+
+    while (Date.now() < deadline) {
+        const result = await wallet.request({ method: 'wallet_getCallsStatus', params: [id] }) as CallsStatus
+        if (isFailed(result.status)) {
+            throw new Error(`Batched calls ${id} failed with status ${result.status}`)
+        }
+        if (isConfirmed(result.status)) {
+            const hashes = (result.receipts ?? []).map(receipt => receipt.transactionHash)
+            if (hashes.length === 0) {
+                throw new Error(`Batched calls ${id} confirmed without receipts`)
+            }
+            return hashes
+        }
+        await new Promise(resolve => setTimeout(resolve, intervalMs))
+    }
+
+    throw new Error(`Timed out waiting for batched calls ${id}`)
+}
@@ -0,0 +1,178 @@
+import { ethers } from 'ethers'
+
+import type { ExecutorOptionsSummary } from './options'
+
+// OFTComposeMsgCodec offsets: nonce(8) | srcEid(4) | amountLD(32) | composeFrom(32) | composeMsg
+const NONCE_SIZE = 8
+const SRC_EID_SIZE = 4
+const AMOUNT_LD_SIZE = 32
+const COMPOSE_FROM_SIZE = 32
+const COMPOSE_FROM_OFFSET = NONCE_SIZE + SRC_EID_SIZE + AMOUNT_LD_SIZE
+const COMPOSE_MSG_OFFSET = COMPOSE_FROM_OFFSET + COMPOSE_FROM_SIZE
+
+// OFTCore always queues the compose call at index 0
+export const OFT_COMPOSE_INDEX = 0
+
+/**
+ * A known composer payload layout, selectable instead of typing a fragment
+ */
+export interface ComposerPreset {
+    id: string
+    name: string
+    description: string
+    // Function fragment or parenthesized parameter list, e.g. '(address receiver, uint256 minAmountOut)'
+    fragment: string
+}
+
+export const COMPOSER_PRESETS: ComposerPreset[] = [
+    {
+        id: 'forward',
+        name: 'Forward to receiver',
+        description: 'Composer forwards the received tokens to another address',
+        fragment: '(address receiver)'
+    },
+    {
+        id: 'swap',
+        name: 'Swap and forward',
+        description: 'Composer swaps the received tokens and sends the output to the receiver',
+        fragment: '(address tokenOut, uint256 minAmountOut, address receiver, uint256 deadline)'
+    },
+    {
+        id: 'call',
+        name: 'Arbitrary call',
+        description: 'Composer calls a target with the given calldata after receiving the tokens',
+        fragment: '(address target, bytes callData)'
+    }
+]
+
+/**
+ * The decoded fields of a message as the destination composer's lzCompose receives it
+ */
+export interface OFTComposeMsg {
+    nonce: bigint
+    srcEid: number
+    amountLD: bigint
+    composeFrom: string
+    composeMsg: string
+}
+
+export interface ComposeMsgField {
+    name: keyof OFTComposeMsg
+    offset: number
+    size: number | null
+    value: string
+}
+
+/**
+ * Parse a composer fragment into its parameter types. Function fragments contribute
+ * their inputs; the selector is not part of the payload.
+ */
+export function parseComposerFragment(fragment: string): readonly ethers.ParamType[] {
+    const trimmed = fragment.trim()
+    if (!trimmed) {
+        throw new Error('Composer fragment is required')
+    }
+    try {
+        if (trimmed.startsWith('function ')) {
+            return ethers.FunctionFragment.from(trimmed).inputs
+        }
+        const params = trimmed.startsWith('(') ? trimmed : `(${trimmed})`
+        return ethers.FunctionFragment.from(`function compose${params}`).inputs
+    } catch (error) {
+        throw new Error(`Invalid composer fragment "${trimmed}": ${error instanceof Error ? error.message : String(error)}`)
+    }
+}
+
+function parseComposeValue(param: ethers.ParamType, value: string): unknown {
+    const trimmed = value.trim()
+    if (param.baseType === 'array' || param.baseType === 'tuple') {
+        return JSON.parse(trimmed)
+    }
+    if (param.baseType === 'bool') {
+        if (trimmed !== 'true' && trimmed !== 'false') {
+            throw new Error('must be true or false')
+        }
+        return trimmed === 'true'
+    }
+    return trimmed
+}
+
+/**
+ * ABI-encode the composer payload, one string value per fragment parameter.
+ * Arrays and tuples are given as JSON.
+ */
+export function encodeComposePayload(fragment: string, values: string[]): string {
+    const params = parseComposerFragment(fragment)
+    if (values.length !== params.length) {
+        throw new Error(`Composer expects ${params.length} values, got ${values.length}`)
+    }
+
+    const parsed = params.map((param, index) => {
+        const label = param.name || `#${index}`
+        try {
+            return parseComposeValue(param, values[index] ?? '')
+        } catch (error) {
+            throw new Error(`Invalid ${param.type} ${label}: ${error instanceof Error ? error.message : String(error)}`)
+        }
+    })
+
+    try {
+        return ethers.AbiCoder.defaultAbiCoder().encode(params, parsed)
+    } catch (error) {
+        const reason = error instanceof Error && 'shortMessage' in error ? String(error.shortMessage) : String(error)
+        throw new Error(`Could not encode compose payload: ${reason}`)
+    }
+}
+
+/**
+ * Encode a message the way OFTComposeMsgCodec.encode does on the destination,
+ * with composeFrom (the sender on the source chain) prepended to the payload
+ */
+export function encodeOFTComposeMsg(msg: OFTComposeMsg): string {
+    return ethers.solidityPacked(
+        ['uint64', 'uint32', 'uint256', 'bytes32', 'bytes'],
+        [msg.nonce, msg.srcEid, msg.amountLD, ethers.zeroPadValue(msg.composeFrom, 32), msg.composeMsg]
+    )
+}
+
+/**
+ * Split an OFTComposeMsgCodec message back into its fields
+ */
+export function decodeOFTComposeMsg(message: string): OFTComposeMsg {
+    if (!ethers.isHexString(message, true) || ethers.dataLength(message) < COMPOSE_MSG_OFFSET) {
+        throw new Error(`Compose message must be at least ${COMPOSE_MSG_OFFSET} bytes of hex`)
+    }
+    return {
+        nonce: ethers.toBigInt(ethers.dataSlice(message, 0, NONCE_SIZE)),
+        srcEid: Number(ethers.toBigInt(ethers.dataSlice(message, NONCE_SIZE, NONCE_SIZE + SRC_EID_SIZE))),
+        amountLD: ethers.toBigInt(ethers.dataSlice(message, NONCE_SIZE + SRC_EID_SIZE, COMPOSE_FROM_OFFSET)),
+        composeFrom: ethers.dataSlice(message, COMPOSE_FROM_OFFSET, COMPOSE_MSG_OFFSET),
+        composeMsg: ethers.dataSlice(message, COMPOSE_MSG_OFFSET)
+    }
+}
+
+/**
+ * Byte layout of a compose message for display, field by field
+ */
+export function describeOFTComposeMsg(msg: OFTComposeMsg): ComposeMsgField[] {
+    return [
+        { name: 'nonce', offset: 0, size: NONCE_SIZE, value: msg.nonce.toString() },
+        { name: 'srcEid', offset: NONCE_SIZE, size: SRC_EID_SIZE, value: msg.srcEid.toString() },
+        { name: 'amountLD', offset: NONCE_SIZE + SRC_EID_SIZE, size: AMOUNT_LD_SIZE, value: msg.amountLD.toString() },
+        { name: 'composeFrom', offset: COMPOSE_FROM_OFFSET, size: COMPOSE_FROM_SIZE, value: ethers.zeroPadValue(msg.composeFrom, 32) },
+        { name: 'composeMsg', offset: COMPOSE_MSG_OFFSET, size: null, value: msg.composeMsg }
+    ]
+}
+
+/**
+ * A compose message is only executed when the effective options give lzCompose gas
+ * at the index OFTCore queues it on. Returns the problem, or null when it will run.
+ */
+export function checkComposeOptions(composeMsg: string | undefined, summary: ExecutorOptionsSummary): string | null {
+    if (!composeMsg || composeMsg === '0x') return null
+    const compose = summary.compose.find(option => option.index === OFT_COMPOSE_INDEX)
+    if (!compose || compose.gas === 0n) {
+        return `A compose message is set but no lzCompose option with gas is present for index ${OFT_COMPOSE_INDEX}`
+    }
+    return null
+}
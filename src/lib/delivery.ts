@@ -0,0 +1,109 @@
+import { ethers } from 'ethers'
+
+import { IOFT_ABI } from './abis'
+
+const oftInterface = new ethers.Interface(IOFT_ABI)
+
+/**
+ * On-chain proof that a message was credited on the destination OFT
+ */
+export interface DestinationDelivery {
+    guid: string
+    txHash: string
+    blockNumber: number
+    srcEid: number
+    toAddress: string
+    amountReceivedLD: bigint
+}
+
+export interface DeliveryWatchOptions {
+    // How many blocks before the current head to include on the first scan
+    lookbackBlocks?: number
+    // Largest block range per eth_getLogs request, public RPCs often cap this
+    maxBlockRange?: number
+    intervalMs?: number
+    timeoutMs?: number
+    onError?: (error: Error) => void
+}
+
+/**
+ * Search a block range on the destination chain for the OFTReceived log matching a GUID
+ */
+export async function findOFTReceived(
+    provider: ethers.Provider,
+    oftAddress: string,
+    guid: string,
+    fromBlock: number,
+    toBlock: number,
+    maxBlockRange = 5_000
+): Promise<DestinationDelivery | null> {
+    const topics = oftInterface.encodeFilterTopics('OFTReceived', [guid])
+
+    for (let start = fromBlock; start <= toBlock; start += maxBlockRange) {
+        const end = Math.min(start + maxBlockRange - 1, toBlock)
+        const logs = await provider.getLogs({ address: oftAddress, topics, fromBlock: start, toBlock: end })
+
+        for (const log of logs) {
+            const parsed = oftInterface.parseLog(log)
+            if (parsed?.name !== 'OFTReceived') continue
+            return {
+                guid: parsed.args.guid,
+                txHash: log.transactionHash,
+                blockNumber: log.blockNumber,
+                srcEid: Number(parsed.args.srcEid),
+                toAddress: parsed.args.toAddress,
+                amountReceivedLD: parsed.args.amountReceivedLD
+            }
+        }
+    }
+
+    return null
+}
+
+/**
+ * Poll the destination OFT for the OFTReceived log of a GUID until it shows up or the timeout expires.
+ * Only new blocks are scanned on each poll. Returns a function that stops watching.
+ */
+export function watchOFTReceived(
+    provider: ethers.Provider,
+    oftAddress: string,
+    guid: string,
+    onDelivered: (delivery: DestinationDelivery) => void,
+    options: DeliveryWatchOptions = {}
+): () => void {
+    const intervalMs = options.intervalMs ?? 15_000
+    const deadline = Date.now() + (options.timeoutMs ?? 60 * 60 * 1000)
+    let nextBlock: number | null = null
+    let stopped = false
+    let timer: ReturnType<typeof setTimeout> | undefined
+
+    const poll = async () => {
+        if (stopped) return
+        try {
+            const head = await provider.getBlockNumber()
+            const fromBlock = nextBlock ?? Math.max(0, head - (options.lookbackBlocks ?? 1_000))
+            if (fromBlock <= head) {
+                const delivery = await findOFTReceived(provider, oftAddress, guid, fromBlock, head, options.maxBlockRange)
+                if (stopped) return
+                if (delivery) {
+                    onDelivered(delivery)
+                    return
+                }
+                nextBlock = head + 1
+            }
+        } catch (error) {
+            if (stopped) return
+            options.onError?.(error instanceof Error ? error : new Error(String(error)))
+        }
+        if (Date.now() < deadline) {
+            timer = setTimeout(poll, intervalMs)
+        }
+    }
+
+    poll()
+
+    return () => {
+        stopped = true
+        if (timer) clearTimeout(timer)
+    }
+}
@@ -0,0 +1,287 @@
+import { ethers } from 'ethers'
+
+import { ENDPOINT_ERRORS_ABI, ERC20_ERRORS_ABI, OFT_ERRORS_ABI, RATE_LIMITER_ERRORS_ABI } from './abis'
+
+// Codes for failures that are not a decoded custom error
+export const USER_REJECTED = 'UserRejected'
+export const USER_CANCELLED = 'Cancelled'
+export const INSUFFICIENT_FUNDS = 'InsufficientFunds'
+export const REVERTED_WITH_REASON = 'Error'
+export const PANIC = 'Panic'
+export const UNKNOWN_REVERT = 'UnknownRevert'
+export const UNKNOWN_ERROR = 'Unknown'
+
+const revertInterface = new ethers.Interface([
+    ...OFT_ERRORS_ABI,
+    ...ENDPOINT_ERRORS_ABI,
+    ...RATE_LIMITER_ERRORS_ABI,
+    ...ERC20_ERRORS_ABI
+])
+
+// Deepest an ethers / JSON-RPC error nests the revert data in practice
+const MAX_ERROR_DEPTH = 6
+
+export type OFTErrorArgs = Record<string, unknown>
+
+/**
+ * A failed quote or send: a stable code (the custom error name when the revert
+ * data could be decoded), its decoded args and what the user can do about it
+ */
+export class OFTError extends Error {
+    readonly code: string
+    readonly args: OFTErrorArgs
+    readonly remedy: string
+    // Raw revert data, when the failure was a revert
+    readonly data?: string
+
+    constructor(code: string, message: string, remedy: string, args: OFTErrorArgs = {}, data?: string, cause?: unknown) {
+        super(message, { cause })
+        this.name = 'OFTError'
+        this.code = code
+        this.args = args
+        this.remedy = remedy
+        this.data = data
+    }
+}
+
+export interface DecodedRevert {
+    name: string
+    signature: string
+    selector: string
+    args: OFTErrorArgs
+}
+
+interface ErrorDescription {
+    message: (args: OFTErrorArgs) => string
+    remedy: string
+}
+
+const formatEth = (value: unknown) => `${ethers.formatEther(value as bigint)} ETH`
+
+const KNOWN_ERRORS: Record<string, ErrorDescription> = {
+    SlippageExceeded: {
+        message: args => `Amount after dust removal and fees (${args.amountLD}) is below the minimum (${args.minAmountLD})`,
+        remedy: 'Raise the slippage tolerance or lower the minimum amount, then quote again.'
+    },
+    InvalidLocalDecimals: {
+        message: () => 'The token has fewer local decimals than the OFT shared decimals',
+        remedy: 'This adapter is misconfigured, use a different token or adapter.'
+    },
+    AmountSDOverflowed: {
+        message: args => `Amount ${args.amountSD} does not fit in uint64 shared decimals`,
+        remedy: 'Send a smaller amount.'
+    },
+    NoPeer: {
+        message: args => `The OFT has no peer for endpoint ${args.eid}`,
+        remedy: 'Pick a destination the adapter is wired to.'
+    },
+    OnlyPeer: {
+        message: args => `Sender ${args.sender} is not the peer for endpoint ${args.eid}`,
+        remedy: 'The OApp peers are misconfigured, contact the token owner.'
+    },
+    NotEnoughNative: {
+        message: args => `Sent ${formatEth(args.msgValue)} is not the quoted native fee`,
+        remedy: 'Quote again and send with the fresh native fee.'
+    },
+    LzTokenUnavailable: {
+        message: () => 'The endpoint has no lzToken configured',
+        remedy: 'Pay the messaging fee in native gas instead of lzToken.'
+    },
+    InvalidOptions: {
+        message: () => 'The extra options are not valid type 3 options',
+        remedy: 'Rebuild the execution options in the Advanced section.'
+    },
+    LZ_InsufficientFee: {
+        message: args => `Messaging fee too low: needs ${formatEth(args.requiredNative)}, got ${formatEth(args.suppliedNative)}` +
+            (args.requiredLzToken ? ` and ${args.requiredLzToken} lzToken (got ${args.suppliedLzToken})` : ''),
+        remedy: 'Fees changed since the quote. Get a new quote and send again.'
+    },
+    LZ_ZeroLzTokenFee: {
+        message: () => 'Paying in lzToken with a zero lzToken fee',
+        remedy: 'Quote again with "Pay in lzToken" enabled, or disable it.'
+    },
+    LZ_LzTokenUnavailable: {
+        message: () => 'The endpoint has no lzToken configured',
+        remedy: 'Pay the messaging fee in native gas instead of lzToken.'
+    },
+    LZ_DefaultSendLibUnavailable: {
+        message: () => 'No send library is configured for this pathway',
+        remedy: 'This pathway is not supported yet, pick another destination.'
+    },
+    LZ_ULN_InvalidWorkerOptions: {
+        message: args => `Options could not be parsed at byte ${args.cursor}`,
+        remedy: 'Rebuild the execution options in the Advanced section.'
+    },
+    LZ_ULN_InvalidWorkerId: {
+        message: args => `Unknown worker id ${args.workerId} in the options`,
+        remedy: 'Only executor (1) and DVN (2) options are supported, rebuild the options.'
+    },
+    LZ_ULN_UnsupportedOptionType: {
+        message: args => `Option type ${args.optionType} is not supported`,
+        remedy: 'Use type 3 options.'
+    },
+    LZ_MessageLib_InvalidMessageSize: {
+        message: args => `Message is ${args.actual} bytes, the pathway allows ${args.max}`,
+        remedy: 'Shorten the compose message.'
+    },
+    Executor_UnsupportedOptionType: {
+        message: args => `The executor does not support option type ${args.optionType}`,
+        remedy: 'Remove that option from the execution options.'
+    },
+    Executor_ZeroLzReceiveGasProvided: {
+        message: () => 'No lzReceive gas is set for the destination',
+        remedy: 'Add an lzReceive gas option, the adapter has no enforced options for this pathway.'
+    },
+    Executor_ZeroLzComposeGasProvided: {
+        message: () => 'A compose option has no gas',
+        remedy: 'Set lzCompose gas above zero.'
+    },
+    Executor_NativeAmountExceedsCap: {
+        message: args => `Native drop of ${formatEth(args.amount)} exceeds the executor cap of ${formatEth(args.cap)}`,
+        remedy: 'Lower the native drop amount.'
+    },
+    RateLimitExceeded: {
+        message: () => 'The adapter rate limit for this pathway is exhausted',
+        remedy: 'Send a smaller amount or wait for the rate limit window to refill.'
+    },
+    ERC20InsufficientBalance: {
+        message: args => `Token balance ${args.balance} is below ${args.needed}`,
+        remedy: 'Lower the amount or top up the token balance.'
+    },
+    ERC20InsufficientAllowance: {
+        message: args => `Allowance ${args.allowance} to ${args.spender} is below ${args.needed}`,
+        remedy: 'Approve the adapter for at least the amount being sent.'
+    },
+    ERC20InvalidSender: {
+        message: args => `Invalid token sender ${args.sender}`,
+        remedy: 'Check the connected account.'
+    },
+    ERC20InvalidReceiver: {
+        message: args => `Invalid token receiver ${args.receiver}`,
+        remedy: 'Check the recipient address.'
+    },
+    ERC20InvalidApprover: {
+        message: args => `Invalid approver ${args.approver}`,
+        remedy: 'Check the connected account.'
+    },
+    ERC20InvalidSpender: {
+        message: args => `Invalid spender ${args.spender}`,
+        remedy: 'Check the adapter address.'
+    },
+    ERC2612ExpiredSignature: {
+        message: args => `Permit expired at ${args.deadline}`,
+        remedy: 'Send again to sign a fresh permit.'
+    },
+    ERC2612InvalidSigner: {
+        message: args => `Permit was signed by ${args.signer}, not ${args.owner}`,
+        remedy: 'Sign the permit with the account that owns the tokens.'
+    },
+    SafeERC20FailedOperation: {
+        message: args => `Token ${args.token} rejected the transfer`,
+        remedy: 'Check the token balance, allowance and whether the token is paused.'
+    },
+    EnforcedPause: {
+        message: () => 'The contract is paused',
+        remedy: 'Transfers are paused by the token owner, try again later.'
+    }
+}
+
+// Pre-v5 OpenZeppelin and other require() strings mapped to remedies
+const REASON_REMEDIES: [RegExp, string][] = [
+    [/transfer amount exceeds balance|insufficient balance/i, 'Lower the amount or top up the token balance.'],
+    [/insufficient allowance|transfer amount exceeds allowance/i, 'Approve the adapter for at least the amount being sent.'],
+    [/paused/i, 'Transfers are paused by the token owner, try again later.'],
+    [/expired/i, 'Send again to sign a fresh permit.']
+]
+
+function isHexData(value: unknown): value is string {
+    return typeof value === 'string' && ethers.isHexString(value) && value.length >= 10
+}
+
+/**
+ * Find the revert data in an ethers or JSON-RPC error, wherever the provider nested it
+ */
+export function extractRevertData(error: unknown, depth = 0): string | null {
+    if (!error || typeof error !== 'object' || depth > MAX_ERROR_DEPTH) return null
+    const record = error as Record<string, unknown>
+
+    if (isHexData(record.data)) return record.data
+    // Some providers put the revert data in the message, e.g. "execution reverted: 0x..."
+    if (typeof record.message === 'string') {
+        const match = record.message.match(/0x[0-9a-fA-F]{8,}/)
+        if (match && match[0].length % 2 === 0 && record.message.toLowerCase().includes('revert')) return match[0]
+    }
+
+    for (const key of ['data', 'error', 'info', 'cause', 'originalError', 'payload']) {
+        const nested = extractRevertData(record[key], depth + 1)
+        if (nested) return nested
+    }
+    return null
+}
+
+/**
+ * Decode revert data against the bundled OFT, endpoint, rate limiter and ERC-20 errors
+ * (plus Solidity's Error(string) and Panic(uint256)). Returns null for unknown selectors.
+ */
+export function decodeRevertData(data: string): DecodedRevert | null {
+    let parsed: ethers.ErrorDescription | null
+    try {
+        parsed = revertInterface.parseError(data)
+    } catch {
+        return null
+    }
+    if (!parsed) return null
+
+    const args: OFTErrorArgs = {}
+    parsed.fragment.inputs.forEach((input, index) => {
+        args[input.name || String(index)] = parsed.args[index]
+    })
+    return { name: parsed.name, signature: parsed.signature, selector: parsed.selector, args }
+}
+
+function fromDecodedRevert(decoded: DecodedRevert, data: string, cause: unknown): OFTError {
+    const known = KNOWN_ERRORS[decoded.name]
+    if (known) {
+        return new OFTError(decoded.name, known.message(decoded.args), known.remedy, decoded.args, data, cause)
+    }
+    if (decoded.name === REVERTED_WITH_REASON) {
+        const reason = String(decoded.args.message ?? decoded.args['0'] ?? '')
+        const remedy = REASON_REMEDIES.find(([pattern]) => pattern.test(reason))?.[1]
+            ?? 'Check the token balance, allowance and transfer parameters.'
+        return new OFTError(REVERTED_WITH_REASON, `Reverted: ${reason}`, remedy, decoded.args, data, cause)
+    }
+    if (decoded.name === PANIC) {
+        return new OFTError(PANIC, `Contract panicked with code ${decoded.args.code ?? decoded.args['0']}`, 'This is a contract bug, contact the token owner.', decoded.args, data, cause)
+    }
+    return new OFTError(decoded.name, `Reverted with ${decoded.signature}`, 'Check the transfer parameters.', decoded.args, data, cause)
+}
+
+/**
+ * Turn anything thrown while quoting or sending into an OFTError
+ */
+export function toOFTError(error: unknown): OFTError {
+    if (error instanceof OFTError) return error
+
+    if (ethers.isError(error, 'ACTION_REJECTED') || (error as { code?: unknown } | null)?.code === 4001) {
+        return new OFTError(USER_REJECTED, 'The request was rejected in the wallet', 'Confirm the request in your wallet to continue.', {}, undefined, error)
+    }
+    if (ethers.isError(error, 'INSUFFICIENT_FUNDS')) {
+        return new OFTError(INSUFFICIENT_FUNDS, 'Not enough native balance for the fee and gas', 'Top up the native gas token on the source chain.', {}, undefined, error)
+    }
+
+    const data = extractRevertData(error)
+    if (data) {
+        const decoded = decodeRevertData(data)
+        if (decoded) return fromDecodedRevert(decoded, data, error)
+        return new OFTError(UNKNOWN_REVERT, `Reverted with unknown error ${data.slice(0, 10)}`, 'Check the transfer parameters; the adapter may use a custom error not known here.', {}, data, error)
+    }
+
+    const message = error instanceof Error ? error.message : String(error)
+    const reason = (error as { reason?: unknown } | null)?.reason
+    if (typeof reason === 'string' && reason) {
+        const remedy = REASON_REMEDIES.find(([pattern]) => pattern.test(reason))?.[1]
+            ?? 'Check the token balance, allowance and transfer parameters.'
+        return new OFTError(REVERTED_WITH_REASON, `Reverted: ${reason}`, remedy, { message: reason }, undefined, error)
+    }
+    return new OFTError(UNKNOWN_ERROR, message, 'Check the debug log for details and try again.', {}, undefined, error)
+}
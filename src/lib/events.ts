@@ -0,0 +1,103 @@
+import { ethers } from 'ethers'
+
+import { IOFT_ABI, ENDPOINT_V2_ABI } from './abis'
+import type { SentMessage } from './types'
+
+const oftInterface = new ethers.Interface(IOFT_ABI)
+const endpointInterface = new ethers.Interface(ENDPOINT_V2_ABI)
+
+/**
+ * Header fields of a LayerZero V1 packet as emitted in PacketSent
+ */
+export interface PacketHeader {
+    version: number
+    nonce: bigint
+    srcEid: number
+    sender: string
+    dstEid: number
+    receiver: string
+    guid: string
+}
+
+/**
+ * Decode the header of an encoded packet (PacketV1Codec layout)
+ */
+export function decodePacketHeader(encodedPacket: string): PacketHeader {
+    return {
+        version: Number(ethers.dataSlice(encodedPacket, 0, 1)),
+        nonce: BigInt(ethers.dataSlice(encodedPacket, 1, 9)),
+        srcEid: Number(ethers.dataSlice(encodedPacket, 9, 13)),
+        sender: ethers.dataSlice(encodedPacket, 13, 45),
+        dstEid: Number(ethers.dataSlice(encodedPacket, 45, 49)),
+        receiver: ethers.dataSlice(encodedPacket, 49, 81),
+        guid: ethers.dataSlice(encodedPacket, 81, 113)
+    }
+}
+
+/**
+ * A PacketSent event: the packet header, the options handed to the workers
+ * (enforced and extra options combined) and the send library that priced it
+ */
+export interface PacketSentLog {
+    header: PacketHeader
+    options: string
+    sendLibrary: string
+}
+
+/**
+ * Decode every EndpointV2 PacketSent event in a transaction's logs
+ */
+export function parsePacketSentLogs(logs: readonly ethers.Log[]): PacketSentLog[] {
+    const packets: PacketSentLog[] = []
+    for (const log of logs) {
+        try {
+            const parsed = endpointInterface.parseLog(log)
+            if (parsed?.name === 'PacketSent') {
+                packets.push({
+                    header: decodePacketHeader(parsed.args.encodedPayload),
+                    options: parsed.args.options,
+                    sendLibrary: parsed.args.sendLibrary
+                })
+            }
+        } catch {
+            // Log with a colliding topic but different layout, not ours
+        }
+    }
+    return packets
+}
+
+/**
+ * Extract the OFTSent and matching PacketSent data from a send transaction's logs.
+ * Returns null when the receipt holds no OFTSent event from the given OFT.
+ */
+export function parseSendReceipt(logs: readonly ethers.Log[], oftAddress: string): SentMessage | null {
+    let sent: ethers.LogDescription | null = null
+
+    for (const log of logs) {
+        if (log.address.toLowerCase() !== oftAddress.toLowerCase()) continue
+        try {
+            const parsed = oftInterface.parseLog(log)
+            if (parsed?.name === 'OFTSent') {
+                sent = parsed
+            }
+        } catch {
+            // Log with a colliding topic but different layout, not ours
+        }
+    }
+
+    if (!sent) return null
+
+    const guid: string = sent.args.guid
+    const packet = parsePacketSentLogs(logs).map(p => p.header).find(p => p.guid.toLowerCase() === guid.toLowerCase())
+
+    return {
+        guid,
+        nonce: packet?.nonce,
+        srcEid: packet?.srcEid,
+        dstEid: Number(sent.args.dstEid),
+        fromAddress: sent.args.fromAddress,
+        receiver: packet?.receiver,
+        amountSentLD: sent.args.amountSentLD,
+        amountReceivedLD: sent.args.amountReceivedLD
+    }
+}
@@ -0,0 +1,202 @@
+import { ethers } from 'ethers'
+
+import type { L1FeeKind } from './l1fees'
+
+export type GasSpeed = 'slow' | 'normal' | 'fast'
+
+/**
+ * How to price the source transactions: a feeHistory-based preset or custom
+ * EIP-1559 fees in gwei (kept as strings so settings stay JSON-safe)
+ */
+export type GasSettings =
+    | { speed: GasSpeed }
+    | { speed: 'custom'; maxFeePerGas: string; maxPriorityFeePerGas: string }
+
+export const DEFAULT_GAS_SETTINGS: GasSettings = { speed: 'normal' }
+
+export interface GasFees {
+    maxFeePerGas: bigint
+    maxPriorityFeePerGas: bigint
+}
+
+/**
+ * Fees chosen for the transfer's transactions and whether to send them as EIP-1559
+ */
+export interface GasPricing {
+    fees: GasFees
+    eip1559: boolean
+}
+
+/**
+ * Fee suggestions for the next block. On chains without EIP-1559 the presets all
+ * carry the legacy gas price as maxFeePerGas and a zero priority fee.
+ */
+export interface GasFeeSuggestions {
+    baseFee: bigint
+    eip1559: boolean
+    slow: GasFees
+    normal: GasFees
+    fast: GasFees
+}
+
+/**
+ * Gas limits, chosen fees and the resulting native cost of a transfer
+ */
+export interface SendCostEstimate {
+    gasLimit: bigint
+    // Token and lzToken approvals together, zero when no approval transaction is needed
+    approvalGasLimit: bigint
+    // Set when a limit could not be estimated (e.g. the send before its approval) and a typical value was used
+    approximate: boolean
+    // L1 data cost on OP-stack and Arbitrum chains not already covered by the gas limits, zero elsewhere
+    l1DataFee: bigint
+    l1FeeKind?: L1FeeKind
+    suggestions: GasFeeSuggestions
+    fees: GasFees
+    nativeFee: bigint
+    // Worst case at maxFeePerGas
+    gasCost: bigint
+    approvalGasCost: bigint
+    totalNativeCost: bigint
+}
+
+export const FEE_HISTORY_BLOCKS = 20
+// Priority fee percentiles sampled for slow, normal and fast
+const FEE_HISTORY_PERCENTILES = [10, 50, 90]
+
+// Typical limits, used when the real call cannot be estimated yet
+export const TYPICAL_SEND_GAS = 300_000n
+export const TYPICAL_APPROVE_GAS = 60_000n
+export const TYPICAL_PERMIT_GAS = 90_000n
+
+// Headroom added to estimated limits when submitting, in basis points
+export const GAS_LIMIT_HEADROOM_BPS = 1_000n
+
+interface FeeHistory {
+    baseFeePerGas: string[]
+    reward?: string[][]
+}
+
+function median(values: bigint[]): bigint {
+    if (values.length === 0) return 0n
+    const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))
+    return sorted[Math.floor(sorted.length / 2)]
+}
+
+/**
+ * Derive slow/normal/fast fees from an eth_feeHistory response: the median priority fee
+ * at each percentile, on top of twice the next block's base fee to ride out increases
+ */
+export function suggestionsFromFeeHistory(history: FeeHistory): GasFeeSuggestions {
+    const baseFees = history.baseFeePerGas.map(fee => BigInt(fee))
+    // feeHistory returns one extra entry: the base fee of the next block
+    const baseFee = baseFees[baseFees.length - 1] ?? 0n
+    const rewards = history.reward ?? []
+
+    const [slow, normal, fast] = FEE_HISTORY_PERCENTILES.map((_, index) => {
+        const maxPriorityFeePerGas = median(rewards.map(block => BigInt(block[index] ?? 0)))
+        return { maxFeePerGas: baseFee * 2n + maxPriorityFeePerGas, maxPriorityFeePerGas }
+    })
+    return { baseFee, eip1559: true, slow, normal, fast }
+}
+
+/**
+ * Current fee suggestions, from eth_feeHistory when the provider speaks JSON-RPC
+ * and the chain has a base fee, otherwise from the legacy gas price
+ */
+export async function fetchFeeSuggestions(provider: ethers.Provider): Promise<GasFeeSuggestions> {
+    const rpc = provider as ethers.JsonRpcApiProvider
+    if (typeof rpc.send === 'function') {
+        try {
+            const history = await rpc.send('eth_feeHistory', [ethers.toQuantity(FEE_HISTORY_BLOCKS), 'latest', FEE_HISTORY_PERCENTILES]) as FeeHistory
+            if (history.baseFeePerGas?.some(fee => BigInt(fee) > 0n)) {
+                return suggestionsFromFeeHistory(history)
+            }
+        } catch (error) {
+            console.log('eth_feeHistory not available, falling back to getFeeData:', error)
+        }
+    }
+
+    const feeData = await provider.getFeeData()
+    if (feeData.maxFeePerGas !== null && feeData.maxPriorityFeePerGas !== null) {
+        const fees = { maxFeePerGas: feeData.maxFeePerGas, maxPriorityFeePerGas: feeData.maxPriorityFeePerGas }
+        return { baseFee: (feeData.maxFeePerGas - feeData.maxPriorityFeePerGas) / 2n, eip1559: true, slow: fees, normal: fees, fast: fees }
+    }
+    const legacy = { maxFeePerGas: feeData.gasPrice ?? 0n, maxPriorityFeePerGas: 0n }
+    return { baseFee: legacy.maxFeePerGas, eip1559: false, slow: legacy, normal: legacy, fast: legacy }
+}
+
+function parseGwei(value: string, label: string): bigint {
+    let parsed: bigint
+    try {
+        parsed = ethers.parseUnits(value.trim(), 'gwei')
+    } catch {
+        throw new Error(`Invalid ${label} "${value}", expected a gwei amount`)
+    }
+    if (parsed < 0n) {
+        throw new Error(`Invalid ${label} "${value}", it cannot be negative`)
+    }
+    return parsed
+}
+
+/**
+ * Parse custom gwei fees. A priority fee above maxFeePerGas is rejected rather than capped.
+ */
+export function parseCustomGasFees(settings: Extract<GasSettings, { speed: 'custom' }>): GasFees {
+    const maxFeePerGas = parseGwei(settings.maxFeePerGas, 'max fee per gas')
+    const maxPriorityFeePerGas = parseGwei(settings.maxPriorityFeePerGas, 'priority fee')
+    if (maxPriorityFeePerGas > maxFeePerGas) {
+        throw new Error('Priority fee cannot exceed the max fee per gas')
+    }
+    return { maxFeePerGas, maxPriorityFeePerGas }
+}
+
+/**
+ * The fees to use under a setting
+ */
+export function resolveGasFees(settings: GasSettings, suggestions: GasFeeSuggestions): GasFees {
+    if (settings.speed !== 'custom') {
+        return suggestions[settings.speed]
+    }
+    const { maxFeePerGas, maxPriorityFeePerGas } = parseCustomGasFees(settings)
+    if (maxFeePerGas < suggestions.baseFee) {
+        console.log('⚠️ Max fee per gas is below the current base fee, the transaction may stay pending')
+    }
+    return { maxFeePerGas, maxPriorityFeePerGas }
+}
+
+/**
+ * Price a transfer's gas limits under a setting and add the LayerZero native fee and the L1 data fee
+ */
+export function priceSendCost(
+    limits: Pick<SendCostEstimate, 'gasLimit' | 'approvalGasLimit' | 'approximate' | 'l1DataFee' | 'l1FeeKind'>,
+    nativeFee: bigint,
+    suggestions: GasFeeSuggestions,
+    settings: GasSettings
+): SendCostEstimate {
+    const fees = resolveGasFees(settings, suggestions)
+    const gasCost = limits.gasLimit * fees.maxFeePerGas
+    const approvalGasCost = limits.approvalGasLimit * fees.maxFeePerGas
+    return {
+        ...limits,
+        suggestions,
+        fees,
+        nativeFee,
+        gasCost,
+        approvalGasCost,
+        totalNativeCost: nativeFee + gasCost + approvalGasCost + limits.l1DataFee
+    }
+}
+
+export function withGasHeadroom(gasLimit: bigint): bigint {
+    return gasLimit + (gasLimit * GAS_LIMIT_HEADROOM_BPS) / 10_000n
+}
+
+/**
+ * Transaction overrides for the chosen fees, a plain gasPrice on legacy chains
+ */
+export function toFeeOverrides({ fees, eip1559 }: GasPricing): ethers.Overrides {
+    return eip1559
+        ? { maxFeePerGas: fees.maxFeePerGas, maxPriorityFeePerGas: fees.maxPriorityFeePerGas }
+        : { gasPrice: fees.maxFeePerGas }
+}
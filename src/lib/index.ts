@@ -2,6 +2,26 @@
 export { OFTClient } from './oft-client'
 export * from './types'
 export * from './utils'
+export * from './wallets'
+export * from './networks'
+export * from './events'
+export * from './tracker'
+export * from './delivery'
+export * from './amounts'
+export * from './addresses'
+export * from './peers'
+export * from './registry'
+export * from './options'
+export * from './compose'
+export * from './permit'
+export * from './batch'
+export * from './allowances'
+export * from './transfer'
+export * from './errors'
+export * from './preview'
+export * from './inspector'
+export * from './gas'
+export * from './l1fees'
 
 // Re-export commonly used utilities
 export { 
@@ -0,0 +1,116 @@
+import { ethers } from 'ethers'
+
+import { IOFT_ABI } from './abis'
+import { parsePacketSentLogs, parseSendReceipt } from './events'
+import type { PacketSentLog } from './events'
+import { decodeOptions } from './options'
+import type { DecodedOptions } from './options'
+import { decodeSendCall, describeSendRecipient } from './preview'
+import type { DecodedSendCall } from './preview'
+import type { SentMessage } from './types'
+
+const SEND_SELECTOR = new ethers.Interface(IOFT_ABI).getFunction('send')!.selector
+
+/**
+ * Transaction fields of an inspected send, when it was looked up by hash
+ */
+export interface InspectedTransaction {
+    hash: string
+    from: string
+    to: string | null
+    value: bigint
+    blockNumber: number | null
+    // Receipt status, null while the transaction is pending
+    status: number | null
+    gasUsed?: bigint
+    fee?: bigint
+}
+
+/**
+ * What a past or prospective OFT send does, decoded from its calldata and logs
+ */
+export interface SendInspection {
+    selector: string
+    // Null when the calldata is not a direct IOFT.send, e.g. a batch or a router call
+    call: DecodedSendCall | null
+    recipient?: string
+    options?: DecodedOptions
+    transaction?: InspectedTransaction
+    // OFT that emitted OFTSent, else the transaction's target
+    oftAddress?: string
+    message: SentMessage | null
+    packets: PacketSentLog[]
+    // Local decimals of the OFT's token, when they could be read
+    decimals?: number
+}
+
+export function isTransactionHash(value: string): boolean {
+    return ethers.isHexString(value, 32)
+}
+
+/**
+ * Decode raw calldata as IOFT.send
+ */
+export function inspectCalldata(data: string): SendInspection {
+    if (!ethers.isHexString(data) || ethers.dataLength(data) < 4) {
+        throw new Error('Calldata must be hex starting with a 4-byte selector')
+    }
+
+    const selector = ethers.dataSlice(data, 0, 4)
+    if (selector !== SEND_SELECTOR) {
+        return { selector, call: null, message: null, packets: [] }
+    }
+
+    const call = decodeSendCall(data)
+    return {
+        selector,
+        call,
+        recipient: describeSendRecipient(call),
+        options: decodeOptions(call.sendParam.extraOptions),
+        message: null,
+        packets: []
+    }
+}
+
+/**
+ * Fetch a transaction and its receipt and decode the send arguments and the
+ * OFTSent / PacketSent events it emitted
+ */
+export async function inspectTransaction(provider: ethers.Provider, txHash: string): Promise<SendInspection> {
+    const [tx, receipt] = await Promise.all([
+        provider.getTransaction(txHash),
+        provider.getTransactionReceipt(txHash)
+    ])
+    if (!tx) {
+        throw new Error(`Transaction ${txHash} not found on this network`)
+    }
+
+    const inspection = inspectCalldata(tx.data)
+    inspection.transaction = {
+        hash: tx.hash,
+        from: tx.from,
+        to: tx.to,
+        value: tx.value,
+        blockNumber: tx.blockNumber,
+        status: receipt?.status ?? null,
+        gasUsed: receipt?.gasUsed,
+        fee: receipt?.fee
+    }
+    inspection.oftAddress = tx.to ?? undefined
+    if (!receipt) {
+        return inspection
+    }
+
+    inspection.packets = parsePacketSentLogs(receipt.logs)
+    // The OFT is the call target for direct sends; batches and routers emit OFTSent from elsewhere
+    const emitters = [...new Set([tx.to, ...receipt.logs.map(log => log.address)].filter((address): address is string => !!address))]
+    for (const address of emitters) {
+        const message = parseSendReceipt(receipt.logs, address)
+        if (message) {
+            inspection.message = message
+            inspection.oftAddress = address
+            break
+        }
+    }
+    return inspection
+}
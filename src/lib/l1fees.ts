@@ -0,0 +1,99 @@
+import { ethers } from 'ethers'
+
+import {
+    ARBITRUM_NODE_INTERFACE_ABI,
+    ARBITRUM_NODE_INTERFACE_ADDRESS,
+    OP_GAS_PRICE_ORACLE_ABI,
+    OP_GAS_PRICE_ORACLE_ADDRESS
+} from './abis'
+
+export type L1FeeKind = 'op' | 'arbitrum'
+
+/**
+ * L1 data cost of one source transaction
+ */
+export interface L1FeeEstimate {
+    kind: L1FeeKind
+    l1Fee: bigint
+    // Arbitrum's eth_estimateGas already covers the L1 part, adding it again would count it twice
+    includedInGasEstimate: boolean
+}
+
+/**
+ * Transaction to price, as it will be sent
+ */
+export interface L1FeeTransaction {
+    from?: string
+    to: string
+    data: string
+    value?: bigint
+    gasLimit?: bigint
+    maxFeePerGas?: bigint
+    maxPriorityFeePerGas?: bigint
+}
+
+// Arbitrum One, Nova and Sepolia; NodeInterface is virtual there so it has no code to detect
+const ARBITRUM_CHAIN_IDS = new Set([42161n, 42170n, 421614n])
+
+// Per chain id, so a wallet switching networks is re-detected
+const kindCache = new Map<bigint, L1FeeKind | null>()
+
+/**
+ * Which L1 fee model a chain uses, by chain id or by code at the fixed predeploy addresses
+ * (which also picks up oracles mocked on a local node)
+ */
+export async function detectL1FeeKind(provider: ethers.Provider): Promise<L1FeeKind | null> {
+    const { chainId } = await provider.getNetwork()
+    const cached = kindCache.get(chainId)
+    if (cached !== undefined) return cached
+
+    let kind: L1FeeKind | null = null
+    if (ARBITRUM_CHAIN_IDS.has(chainId)) {
+        kind = 'arbitrum'
+    } else if (await provider.getCode(OP_GAS_PRICE_ORACLE_ADDRESS) !== '0x') {
+        kind = 'op'
+    } else if (await provider.getCode(ARBITRUM_NODE_INTERFACE_ADDRESS) !== '0x') {
+        kind = 'arbitrum'
+    }
+    console.log(`⛽ L1 fee model for chain ${chainId}:`, kind ?? 'none')
+    kindCache.set(chainId, kind)
+    return kind
+}
+
+/**
+ * L1 data fee of a transaction on OP-stack or Arbitrum chains, null elsewhere.
+ * OP prices the unsigned RLP-encoded transaction, Arbitrum reports the L2 gas
+ * spent on L1 data at the current base fee.
+ */
+export async function estimateL1Fee(provider: ethers.Provider, tx: L1FeeTransaction): Promise<L1FeeEstimate | null> {
+    const kind = await detectL1FeeKind(provider)
+    if (!kind) return null
+
+    if (kind === 'op') {
+        const { chainId } = await provider.getNetwork()
+        const nonce = tx.from ? await provider.getTransactionCount(tx.from, 'pending') : 0
+        const unsigned = ethers.Transaction.from({
+            type: 2,
+            chainId,
+            nonce,
+            to: tx.to,
+            data: tx.data,
+            value: tx.value ?? 0n,
+            gasLimit: tx.gasLimit ?? 0n,
+            maxFeePerGas: tx.maxFeePerGas ?? 0n,
+            maxPriorityFeePerGas: tx.maxPriorityFeePerGas ?? 0n
+        }).unsignedSerialized
+        const oracle = new ethers.Contract(OP_GAS_PRICE_ORACLE_ADDRESS, OP_GAS_PRICE_ORACLE_ABI, provider)
+        const l1Fee: bigint = await oracle.getL1Fee(unsigned)
+        return { kind, l1Fee, includedInGasEstimate: false }
+    }
+
+    const nodeInterface = new ethers.Contract(ARBITRUM_NODE_INTERFACE_ADDRESS, ARBITRUM_NODE_INTERFACE_ABI, provider)
+    const [, gasEstimateForL1, baseFee] = await nodeInterface.gasEstimateComponents.staticCall(
+        tx.to,
+        false,
+        tx.data,
+        { from: tx.from, value: tx.value ?? 0n }
+    )
+    return { kind, l1Fee: BigInt(gasEstimateForL1) * BigInt(baseFee), includedInGasEstimate: true }
+}
@@ -0,0 +1,49 @@
+import { ethers } from 'ethers'
+
+/**
+ * RPC URLs keyed by LayerZero endpoint ID
+ */
+export type RpcUrls = Record<number, string>
+
+// Public RPC endpoints used for read-only access when no override is configured
+export const DEFAULT_RPC_URLS: RpcUrls = {
+    30101: 'https://ethereum-rpc.publicnode.com',
+    30102: 'https://bsc-rpc.publicnode.com',
+    30106: 'https://avalanche-c-chain-rpc.publicnode.com',
+    30109: 'https://polygon-bor-rpc.publicnode.com',
+    30110: 'https://arbitrum-one-rpc.publicnode.com',
+    30111: 'https://optimism-rpc.publicnode.com',
+    30112: 'https://fantom-rpc.publicnode.com',
+    40102: 'https://bsc-testnet-rpc.publicnode.com',
+    40161: 'https://ethereum-sepolia-rpc.publicnode.com'
+}
+
+export const NETWORK_NAMES_BY_EID: Record<number, string> = {
+    30101: 'Ethereum Mainnet',
+    30102: 'BSC Mainnet',
+    30106: 'Avalanche Mainnet',
+    30109: 'Polygon Mainnet',
+    30110: 'Arbitrum One',
+    30111: 'Optimism',
+    30112: 'Fantom',
+    40102: 'BSC Testnet',
+    40161: 'Ethereum Sepolia'
+}
+
+/**
+ * Get the configured RPC URL for an endpoint ID, preferring overrides over the defaults
+ */
+export function getRpcUrl(eid: number, overrides: RpcUrls = {}): string {
+    const url = overrides[eid] ?? DEFAULT_RPC_URLS[eid]
+    if (!url) {
+        throw new Error(`No RPC URL configured for endpoint ID ${eid}`)
+    }
+    return url
+}
+
+/**
+ * Create a read-only JSON-RPC provider for an endpoint ID
+ */
+export function getReadOnlyProvider(eid: number, overrides: RpcUrls = {}): ethers.JsonRpcProvider {
+    return new ethers.JsonRpcProvider(getRpcUrl(eid, overrides), undefined, { staticNetwork: true })
+}
@@ -1,59 +1,146 @@
 import { ethers, parseUnits } from 'ethers'
 import { ChainType, endpointIdToChainType } from '@layerzerolabs/lz-definitions'
-import { Options, addressToBytes32 } from '@layerzerolabs/lz-v2-utilities'
+import { bytes32ToEthAddress } from '@layerzerolabs/lz-v2-utilities'
 
 import type { 
     EvmSendArgs, 
     SendResult, 
     QuoteResult, 
     OFTConfig,
-    MetaMaskProvider 
+    OFTLimit,
+    OFTQuote,
+    SendParams,
+    MessagingFee,
+    FeeOptions,
+    LzTokenStatus,
+    ApprovalPlan,
+    Eip1193Provider,
+    KnownSendCostInputs,
+    OFTClientBackend
 } from './types'
 import { getLayerZeroScanLink } from './utils'
+import { getReadOnlyProvider } from './networks'
+import { IOFT_ABI, IERC20_ABI, ENDPOINT_V2_ABI, ERC20_PERMIT_ABI } from './abis'
+import { parseSendReceipt } from './events'
+import { watchOFTReceived } from './delivery'
+import { discoverPeers } from './peers'
+import { findDeploymentForToken } from './registry'
+import { checkComposeOptions } from './compose'
+import { toOFTError } from './errors'
+import { decodeSendCall, describeSendRecipient, diffSendCall } from './preview'
+import { inspectTransaction } from './inspector'
+import { DEFAULT_GAS_SETTINGS, TYPICAL_APPROVE_GAS, TYPICAL_PERMIT_GAS, TYPICAL_SEND_GAS, fetchFeeSuggestions, priceSendCost, resolveGasFees, toFeeOverrides, withGasHeadroom } from './gas'
+import type { GasFeeSuggestions, GasPricing, GasSettings, SendCostEstimate } from './gas'
+import { estimateL1Fee } from './l1fees'
+import type { L1FeeKind, L1FeeTransaction } from './l1fees'
+import type { SendInspection } from './inspector'
+import type { SendCall, SendPreview } from './preview'
+import { detectPermitSupport, encodePermitCall, signPermit } from './permit'
+import { sendCalls, supportsAtomicBatch, waitForCalls } from './batch'
+import type { WalletCall } from './batch'
+import { TransferFlow } from './transfer'
+import type { TransferListener, TransferReviewer } from './transfer'
+import { buildExtraOptions, checkOptionsMerge, combineOptions, decodeOptions, summarizeExecutorOptions, MSG_TYPE_SEND, MSG_TYPE_SEND_AND_CALL } from './options'
+import type { EffectiveOptions } from './options'
+import type { TokenDeployment, TokenRegistry } from './registry'
+import { DEFAULT_APPROVAL_STRATEGY, isUnlimitedAllowance, resolveApprovalAmount } from './allowances'
+import type { AdapterAllowance, ApprovalStrategy } from './allowances'
+import type { PeerDiscoveryOptions, PeerInfo } from './peers'
+import { encodeRecipient, validateRecipient, SOLANA_TOKEN_ACCOUNT_RENT_LAMPORTS } from './addresses'
+import { analyzeAmount, applySlippage, getDecimalConversionRate, MAX_SHARED_AMOUNT_SD } from './amounts'
+import type { AmountAnalysis } from './amounts'
+import type { DestinationDelivery, DeliveryWatchOptions } from './delivery'
+import type { RpcUrls } from './networks'
 
-// IOFT ABI - comprehensive interface for OFT operations
-const IOFT_ABI = [
-    'function token() external view returns (address)',
-    'function approvalRequired() external view returns (bool)',
-    'function quoteSend(tuple(uint32 dstEid, bytes32 to, uint256 amountLD, uint256 minAmountLD, bytes extraOptions, bytes composeMsg, bytes oftCmd) sendParam, bool payInLzToken) external view returns (uint256 nativeFee, uint256 lzTokenFee)',
-    'function send(tuple(uint32 dstEid, bytes32 to, uint256 amountLD, uint256 minAmountLD, bytes extraOptions, bytes composeMsg, bytes oftCmd) sendParam, tuple(uint256 nativeFee, uint256 lzTokenFee) fee, address refundAddress) external payable returns (bytes32 guid)',
-    'function decimals() external view returns (uint8)',
-    'function symbol() external view returns (string)',
-    'function name() external view returns (string)'
-]
-
-// IERC20 ABI - minimal interface for ERC20 operations
-const IERC20_ABI = [
-    'function decimals() external view returns (uint8)',
-    'function allowance(address owner, address spender) external view returns (uint256)',
-    'function approve(address spender, uint256 amount) external returns (bool)'
-]
+// OFT default, assumed when probing an adapter that exposes no conversion rate
+const DEFAULT_SHARED_DECIMALS = 6
+
+const erc20Interface = new ethers.Interface(IERC20_ABI)
+const permitInterface = new ethers.Interface(ERC20_PERMIT_ABI)
+const oftInterface = new ethers.Interface(IOFT_ABI)
+
+function isEip1193Provider(backend: OFTClientBackend): backend is Eip1193Provider {
+    return typeof (backend as Eip1193Provider).request === 'function'
+}
 
 export class OFTClient {
-    private provider: ethers.BrowserProvider
+    private provider: ethers.Provider
+    private resolveSigner: (() => Promise<ethers.Signer>) | null
+    private probedLimits = new Map<string, OFTLimit>()
+    private discoveredPeers = new Map<string, PeerInfo[]>()
+    // Raw EIP-1193 wallet for requests ethers has no wrapper for, such as wallet_sendCalls
+    private wallet: Eip1193Provider | null = null
+
+    /**
+     * @param backend an EIP-1193 provider (MetaMask, Rabby, Frame, ...), an
+     * ethers signer/provider pair for Node scripts and tests, or a bare provider
+     * for a read-only client
+     */
+    constructor(backend: OFTClientBackend) {
+        if (isEip1193Provider(backend)) {
+            const browserProvider = new ethers.BrowserProvider(backend)
+            this.provider = browserProvider
+            this.wallet = backend
+            this.resolveSigner = () => browserProvider.getSigner()
+            return
+        }
+
+        const provider = backend.provider ?? backend.signer?.provider
+        if (!provider) {
+            throw new Error('Ethers backend needs a provider: pass one or use a connected signer')
+        }
+        this.provider = provider
 
-    constructor(metaMaskProvider: MetaMaskProvider) {
-        this.provider = new ethers.BrowserProvider(metaMaskProvider)
+        if (!backend.signer) {
+            this.resolveSigner = null
+            return
+        }
+        const signer = backend.signer.provider === provider ? backend.signer : backend.signer.connect(provider)
+        this.resolveSigner = async () => signer
     }
 
-    private async getSigner(): Promise<ethers.JsonRpcSigner> {
-        return await this.provider.getSigner()
+    /**
+     * Create a read-only client for an endpoint ID backed by its configured RPC URL.
+     * Quotes and adapter inspection work without a wallet; sending requires a signer.
+     */
+    static readOnly(eid: number, rpcUrls: RpcUrls = {}): OFTClient {
+        return new OFTClient({ provider: getReadOnlyProvider(eid, rpcUrls) })
+    }
+
+    /**
+     * Whether this client can only read (no signer attached)
+     */
+    isReadOnly(): boolean {
+        return this.resolveSigner === null
+    }
+
+    private async getSigner(): Promise<ethers.Signer> {
+        if (!this.resolveSigner) {
+            throw new Error('This client is read-only. Connect a wallet to sign transactions.')
+        }
+        return await this.resolveSigner()
     }
 
     /**
      * Get the signer for external use
      */
-    async getSignerForExternal(): Promise<ethers.JsonRpcSigner> {
+    async getSignerForExternal(): Promise<ethers.Signer> {
         return await this.getSigner()
     }
 
+    /**
+     * Get the provider used for reads
+     */
+    getProvider(): ethers.Provider {
+        return this.provider
+    }
+
     /**
      * Get OFT configuration
      */
     async getOFTConfig(oftAddress: string): Promise<OFTConfig> {
         try {
-            const signer = await this.getSigner()
-            const oft = new ethers.Contract(oftAddress, IOFT_ABI, signer)
+            const oft = new ethers.Contract(oftAddress, IOFT_ABI, this.provider)
             
             // First, verify the contract exists and has the required functions
             try {
@@ -66,7 +153,7 @@ export class OFTClient {
             }
             
             const underlying = await oft.token()
-            const erc20 = new ethers.Contract(underlying, IERC20_ABI, signer)
+            const erc20 = new ethers.Contract(underlying, IERC20_ABI, this.provider)
             
             let decimals: number
             let approvalRequired: boolean
@@ -90,11 +177,29 @@ export class OFTClient {
                 approvalRequired = false
             }
 
+            // Shared decimals drive dust removal; older deployments may not expose both getters
+            let sharedDecimals: number | undefined
+            let decimalConversionRate: bigint | undefined
+            try {
+                sharedDecimals = Number(await oft.sharedDecimals())
+            } catch {
+                sharedDecimals = undefined
+            }
+            try {
+                decimalConversionRate = await oft.decimalConversionRate()
+            } catch {
+                decimalConversionRate = sharedDecimals !== undefined
+                    ? getDecimalConversionRate(Number(decimals), sharedDecimals)
+                    : undefined
+            }
+
             return {
                 address: oftAddress,
                 underlyingToken: underlying,
                 decimals,
-                approvalRequired
+                approvalRequired,
+                sharedDecimals,
+                decimalConversionRate
             }
         } catch (error) {
             console.error('OFT config error:', error)
@@ -103,98 +208,282 @@ export class OFTClient {
     }
 
     /**
-     * Check and handle ERC20 approval for OFT adapters
+     * Get the peer (bytes32) an OApp trusts on a remote endpoint ID, zero when unset
      */
-    async handleApproval(oftAddress: string, amount: string, decimals: number): Promise<void> {
-        const signer = await this.getSigner()
-        const oft = new ethers.Contract(oftAddress, IOFT_ABI, signer)
-        
+    async getPeer(oftAddress: string, eid: number): Promise<string> {
+        const oft = new ethers.Contract(oftAddress, IOFT_ABI, this.provider)
+        return await oft.peers(eid)
+    }
+
+    /**
+     * List every destination the OFT has a peer for. Results are cached per OFT
+     * and source EID since peers rarely change; pass refresh to re-read them.
+     */
+    async discoverPeers(oftAddress: string, options: PeerDiscoveryOptions & { srcEid?: number; refresh?: boolean } = {}): Promise<PeerInfo[]> {
+        const srcEid = options.srcEid ?? await this.getCurrentSrcEid()
+        const cacheKey = `${oftAddress.toLowerCase()}:${srcEid}`
+        const cached = this.discoveredPeers.get(cacheKey)
+        if (cached && !options.refresh) return cached
+
+        console.log(`🔎 Discovering peers of ${oftAddress} on EID ${srcEid}...`)
+        const peers = await discoverPeers(this.provider, oftAddress, srcEid, options)
+        console.log(`✅ Found ${peers.length} peer(s):`, peers.map(p => `${p.eid} (${p.network})`).join(', '))
+
+        this.discoveredPeers.set(cacheKey, peers)
+        return peers
+    }
+
+    /**
+     * Read the options the OApp enforces towards a destination for plain sends and sends with a compose message
+     */
+    async getEnforcedOptions(oftAddress: string, dstEid: number): Promise<{ send: string; sendAndCall: string }> {
+        const oft = new ethers.Contract(oftAddress, IOFT_ABI, this.provider)
+        const [send, sendAndCall] = await Promise.all([
+            oft.enforcedOptions(dstEid, MSG_TYPE_SEND) as Promise<string>,
+            oft.enforcedOptions(dstEid, MSG_TYPE_SEND_AND_CALL) as Promise<string>
+        ])
+        return { send, sendAndCall }
+    }
+
+    /**
+     * Work out the options the executor will actually receive: enforced options for
+     * the message type combined with the extra options, with their totals and any
+     * duplicated or conflicting entries. The OApp's own combineOptions is used when
+     * it exposes one, otherwise the options are merged locally the same way.
+     */
+    async getEffectiveOptions(oftAddress: string, dstEid: number, extraOptions: string, composeMsg?: string): Promise<EffectiveOptions> {
+        const msgType = composeMsg && composeMsg !== '0x' ? MSG_TYPE_SEND_AND_CALL : MSG_TYPE_SEND
+        const oft = new ethers.Contract(oftAddress, IOFT_ABI, this.provider)
+
+        let enforcedOptions = '0x'
         try {
-            const approvalRequired = await oft.approvalRequired()
-            if (!approvalRequired) {
-                return // No approval needed
-            }
+            enforcedOptions = await oft.enforcedOptions(dstEid, msgType)
+        } catch (error) {
+            console.log('enforcedOptions not available, assuming none:', error)
+        }
 
-            const underlying = await oft.token()
-            const erc20 = new ethers.Contract(underlying, IERC20_ABI, signer)
-            
-            const amountUnits = parseUnits(amount, decimals)
-            const currentAllowance = await erc20.allowance(await signer.getAddress(), oftAddress)
-            
-            if (currentAllowance.lt(amountUnits)) {
-                const approveTx = await erc20.approve(oftAddress, amountUnits)
-                await approveTx.wait()
-            }
-        } catch {
-            // If approvalRequired() doesn't exist, assume it's a regular OFT
-            console.log('No approval required (regular OFT detected)')
+        let combinedOptions: string
+        let source: EffectiveOptions['source'] = 'onchain'
+        try {
+            combinedOptions = await oft.combineOptions(dstEid, msgType, extraOptions)
+        } catch (error) {
+            console.log('combineOptions call failed, merging locally:', error)
+            combinedOptions = combineOptions(enforcedOptions, extraOptions)
+            source = 'local'
         }
+
+        const summary = summarizeExecutorOptions(combinedOptions)
+        const warnings = checkOptionsMerge(enforcedOptions, extraOptions, msgType, summary)
+        warnings.forEach(warning => console.warn('⚠️ Options:', warning))
+
+        return { msgType, enforcedOptions, extraOptions, combinedOptions, summary, warnings, source }
     }
 
     /**
-     * Build LayerZero options
+     * Watch the destination OFT for the OFTReceived log of a sent message using a
+     * read-only RPC for the destination EID. The destination OFT is resolved from
+     * the source OFT's peer unless given. Returns a function that stops watching.
      */
-    buildOptions(args: EvmSendArgs): string {
-        let options = Options.newOptions()
+    async watchDestinationDelivery(
+        params: { oftAddress: string; dstEid: number; guid: string; dstOftAddress?: string; rpcUrls?: RpcUrls },
+        onDelivered: (delivery: DestinationDelivery) => void,
+        options: DeliveryWatchOptions = {}
+    ): Promise<() => void> {
+        if (endpointIdToChainType(params.dstEid) !== ChainType.EVM) {
+            throw new Error(`On-chain delivery confirmation is only supported for EVM destinations (dstEid ${params.dstEid})`)
+        }
 
-        // Add lzReceive options
-        if (args.extraLzReceiveOptions && args.extraLzReceiveOptions.length > 0) {
-            if (args.extraLzReceiveOptions.length % 2 !== 0) {
-                throw new Error('Invalid lzReceive options: expected pairs of gas,value')
+        let dstOftAddress = params.dstOftAddress
+        if (!dstOftAddress) {
+            const peer = await this.getPeer(params.oftAddress, params.dstEid)
+            if (peer === ethers.ZeroHash) {
+                throw new Error(`No peer set on ${params.oftAddress} for dstEid ${params.dstEid}`)
             }
+            dstOftAddress = bytes32ToEthAddress(peer)
+        }
 
-            for (let i = 0; i < args.extraLzReceiveOptions.length; i += 2) {
-                const gas = Number(args.extraLzReceiveOptions[i])
-                const value = Number(args.extraLzReceiveOptions[i + 1]) || 0
-                options = options.addExecutorLzReceiveOption(gas, value)
-            }
+        const dstProvider = getReadOnlyProvider(params.dstEid, params.rpcUrls)
+        console.log('👀 Watching destination OFT for OFTReceived:', dstOftAddress, params.guid)
+        return watchOFTReceived(dstProvider, dstOftAddress, params.guid, onDelivered, options)
+    }
+
+    /**
+     * Work out how an OFT adapter gets its allowance for a send: already there, an
+     * EIP-2612 permit signature whenever the token supports it, else an approve call.
+     * Either is batched with the send when the wallet supports atomic wallet_sendCalls
+     * (EIP-5792). A standard adapter's send() takes no permit and pulls from msg.sender,
+     * so the permit cannot ride inside the send itself: without batching it is submitted
+     * as its own transaction before the send, like an approve.
+     * The strategy decides how much is approved; the allowance only has to cover amountLD.
+     * Pass the quote's oftConfig to skip reading it again.
+     * Returns null for OFTs that burn from the sender and need no approval.
+     */
+    async getApprovalPlan(
+        oftAddress: string,
+        amountLD: bigint,
+        strategy: ApprovalStrategy = DEFAULT_APPROVAL_STRATEGY,
+        config?: OFTConfig
+    ): Promise<ApprovalPlan | null> {
+        const oftConfig = config ?? await this.getOFTConfig(oftAddress)
+        if (!oftConfig.approvalRequired) return null
+
+        const owner = await this.getSignerAddress()
+        const erc20 = new ethers.Contract(oftConfig.underlyingToken, IERC20_ABI, this.provider)
+        const allowance: bigint = await erc20.allowance(owner, oftAddress)
+        const plan: ApprovalPlan = {
+            token: oftConfig.underlyingToken,
+            owner,
+            spender: oftAddress,
+            amountLD,
+            approvalAmountLD: resolveApprovalAmount(strategy, amountLD, oftConfig.decimals),
+            strategy,
+            allowance,
+            method: 'none',
+            batched: false
         }
+        if (allowance >= amountLD) return plan
 
-        // Add lzCompose options
-        if (args.extraLzComposeOptions && args.extraLzComposeOptions.length > 0) {
-            if (args.extraLzComposeOptions.length % 3 !== 0) {
-                throw new Error('Invalid lzCompose options: expected triplets of index,gas,value')
-            }
+        const permit = await detectPermitSupport(this.provider, oftConfig.underlyingToken, owner)
+        plan.method = permit ? 'permit' : 'approve'
+        plan.permit = permit ?? undefined
+        if (this.wallet) {
+            const { chainId } = await this.provider.getNetwork()
+            plan.batched = await supportsAtomicBatch(this.wallet, owner, chainId)
+        }
+        console.log('🔐 Approval plan:', plan.method, plan.batched ? '(batched)' : '(separate transaction)')
+        return plan
+    }
 
-            for (let i = 0; i < args.extraLzComposeOptions.length; i += 3) {
-                const index = Number(args.extraLzComposeOptions[i])
-                const gas = Number(args.extraLzComposeOptions[i + 1])
-                const value = Number(args.extraLzComposeOptions[i + 2]) || 0
-                options = options.addExecutorComposeOption(index, gas, value)
-            }
+    /**
+     * The call that grants a plan's allowance; permits are signed here, so this prompts the wallet
+     */
+    async buildApprovalCall(plan: ApprovalPlan): Promise<WalletCall | null> {
+        if (plan.method === 'none') return null
+        if (plan.method === 'permit' && plan.permit) {
+            console.log('✍️ Requesting permit signature...')
+            const permit = await signPermit(await this.getSigner(), plan.permit, plan.spender, plan.approvalAmountLD)
+            return encodePermitCall(permit)
         }
+        return { to: plan.token, data: erc20Interface.encodeFunctionData('approve', [plan.spender, plan.approvalAmountLD]) }
+    }
 
-        // Add native drop options
-        if (args.extraNativeDropOptions && args.extraNativeDropOptions.length > 0) {
-            if (args.extraNativeDropOptions.length % 2 !== 0) {
-                throw new Error('Invalid native drop options: expected pairs of amount,recipient')
-            }
+    /**
+     * Grant a plan's allowance with its own transaction and wait until it is in place.
+     * Returns the transaction hash, or null when nothing had to be approved.
+     */
+    async executeApproval(plan: ApprovalPlan, onSubmitted?: (txHash: string) => void, pricing?: GasPricing): Promise<string | null> {
+        const call = await this.buildApprovalCall(plan)
+        if (!call) return null
 
-            for (let i = 0; i < args.extraNativeDropOptions.length; i += 2) {
-                const amountStr = args.extraNativeDropOptions[i]
-                const recipient = args.extraNativeDropOptions[i + 1]
+        const signer = await this.getSigner()
+        const tx = await signer.sendTransaction({ ...call, ...(pricing ? toFeeOverrides(pricing) : {}) })
+        console.log(`  ${plan.method === 'permit' ? 'Permit' : 'Approval'} transaction sent:`, tx.hash)
+        onSubmitted?.(tx.hash)
+        await tx.wait()
 
-                if (!amountStr || !recipient) {
-                    throw new Error('Invalid native drop option: Both amount and recipient must be provided')
-                }
+        const erc20 = new ethers.Contract(plan.token, IERC20_ABI, this.provider)
+        const newAllowance: bigint = await erc20.allowance(plan.owner, plan.spender)
+        if (newAllowance < plan.amountLD) {
+            throw new Error('Approval failed - insufficient allowance after approval')
+        }
+        console.log('✅ Allowance granted:', newAllowance.toString())
+        return tx.hash
+    }
 
-                try {
-                    options = options.addExecutorNativeDropOption(amountStr.trim(), recipient.trim())
-                } catch (error) {
-                    const maxUint128 = BigInt('340282366920938463463374607431768211455')
-                    const maxUint128Ether = Number(maxUint128) / 1e18
-
-                    throw new Error(
-                        `Failed to add native drop option with amount ${amountStr.trim()} wei. ` +
-                        `LayerZero protocol constrains native drop amounts to uint128 maximum ` +
-                        `(${maxUint128.toString()} wei ≈ ${maxUint128Ether.toFixed(2)} ETH). ` +
-                        `Original error: ${error instanceof Error ? error.message : String(error)}`
-                    )
-                }
-            }
+    /**
+     * Check and handle ERC20 approval for OFT adapters
+     */
+    async handleApproval(oftAddress: string, amount: string, decimals: number, strategy?: ApprovalStrategy): Promise<void> {
+        const plan = await this.getApprovalPlan(oftAddress, parseUnits(amount, decimals), strategy)
+        if (plan) {
+            await this.executeApproval(plan)
+        }
+    }
+
+    /**
+     * The connected account's current allowance to each adapter deployment.
+     * Plain OFTs are skipped, they burn from the sender without an allowance.
+     */
+    async getAdapterAllowances(deployments: TokenDeployment[]): Promise<AdapterAllowance[]> {
+        const owner = await this.getSignerAddress()
+        const adapters = deployments.filter(deployment => deployment.type === 'adapter')
+
+        return await Promise.all(adapters.map(async deployment => {
+            const token: string = deployment.token ?? await new ethers.Contract(deployment.address, IOFT_ABI, this.provider).token()
+            const erc20 = new ethers.Contract(token, IERC20_ABI, this.provider)
+            const allowance: bigint = await erc20.allowance(owner, deployment.address)
+            return { deployment, token, allowance, unlimited: isUnlimitedAllowance(allowance) }
+        }))
+    }
+
+    /**
+     * Approve spender for exactly amountLD of token, replacing the current allowance
+     */
+    async setAllowance(tokenAddress: string, spender: string, amountLD: bigint): Promise<string> {
+        const signer = await this.getSigner()
+        const erc20 = new ethers.Contract(tokenAddress, IERC20_ABI, signer)
+        console.log('🔐 Setting allowance:', spender, amountLD.toString())
+        const tx = await erc20.approve(spender, amountLD)
+        await tx.wait()
+        console.log('✅ Allowance set:', tx.hash)
+        return tx.hash
+    }
+
+    /**
+     * Set spender's allowance to zero
+     */
+    async revokeAllowance(tokenAddress: string, spender: string): Promise<string> {
+        return await this.setAllowance(tokenAddress, spender, 0n)
+    }
+
+    /**
+     * Work out amountLD for a send, accounting for shared-decimals dust removal.
+     * Throws before anything is signed when the amount does not fit the uint64
+     * shared-decimals limit.
+     */
+    resolveSendAmounts(args: EvmSendArgs, oftConfig: OFTConfig): { amountUnits: bigint; analysis: AmountAnalysis } {
+        const analysis = analyzeAmount(args.amount, oftConfig.decimals, oftConfig.decimalConversionRate)
+
+        if (analysis.overflowsSharedDecimals) {
+            throw new Error(
+                `Amount ${args.amount} exceeds the OFT shared-decimals limit ` +
+                `(max ${ethers.formatUnits(MAX_SHARED_AMOUNT_SD * (oftConfig.decimalConversionRate ?? 1n), oftConfig.decimals)})`
+            )
+        }
+
+        if (analysis.dustLD > 0n) {
+            console.warn(
+                `⚠️ Amount has dust below shared decimals: ${ethers.formatUnits(analysis.dustLD, oftConfig.decimals)} ` +
+                (args.roundDownDust ? 'will be dropped from the amount' : 'will stay in the wallet')
+            )
+        }
+
+        const amountUnits = args.roundDownDust ? analysis.bridgedAmountLD : analysis.amountLD
+
+        return { amountUnits, analysis }
+    }
+
+    /**
+     * Work out minAmountLD for a send. An explicit minAmount wins; otherwise the
+     * slippage tolerance is applied to the expected received amount, which is
+     * the dust-free amount minus any OFT fee. Without either, the expected
+     * amount itself is the minimum.
+     */
+    resolveMinAmount(args: EvmSendArgs, oftConfig: OFTConfig, expectedReceivedLD: bigint): bigint {
+        if (args.minAmount) {
+            return parseUnits(args.minAmount, oftConfig.decimals)
         }
+        if (args.slippageBps !== undefined) {
+            return applySlippage(expectedReceivedLD, args.slippageBps)
+        }
+        return expectedReceivedLD
+    }
 
-        return options.toHex()
+    /**
+     * Build LayerZero options
+     */
+    buildOptions(args: EvmSendArgs): string {
+        return buildExtraOptions(args)
     }
 
     /**
@@ -214,72 +503,45 @@ export class OFTClient {
             const network = await this.provider.getNetwork()
             console.log('Current network chainId:', Number(network.chainId))
             
-                        const oftConfig = await this.getOFTConfig(args.oftAddress)
+            // Checks the contract has code and reads token(), so neither is repeated below
+            const oftConfig = await this.getOFTConfig(args.oftAddress)
             console.log('OFT config:', oftConfig)
             
             let tokenInfo: { name: string; symbol: string; decimals: number; address: string } | null = null
             
-            // Try to get the token address to verify this is a valid OFT adapter
+            // Name and symbol of the underlying token, for display only
             try {
-                const signer = await this.getSigner()
-                const oft = new ethers.Contract(args.oftAddress, IOFT_ABI, signer)
-                const tokenAddress = await oft.token()
-                console.log('Underlying token address:', tokenAddress)
-                
-                // Get token information
-                const tokenContract = new ethers.Contract(tokenAddress, [
+                const tokenContract = new ethers.Contract(oftConfig.underlyingToken, [
                     'function name() external view returns (string)',
-                    'function symbol() external view returns (string)',
-                    'function decimals() external view returns (uint8)'
-                ], signer)
+                    'function symbol() external view returns (string)'
+                ], this.provider)
+                const [tokenName, tokenSymbol] = await Promise.all([tokenContract.name(), tokenContract.symbol()])
+                console.log('🎯 Token Details:')
+                console.log('  Name:', tokenName)
+                console.log('  Symbol:', tokenSymbol)
+                console.log('  Decimals:', oftConfig.decimals)
+                console.log('  Amount to send:', args.amount, tokenSymbol)
                 
-                try {
-                    const tokenName = await tokenContract.name()
-                    const tokenSymbol = await tokenContract.symbol()
-                    const tokenDecimals = await tokenContract.decimals()
-                    console.log('🎯 Token Details:')
-                    console.log('  Name:', tokenName)
-                    console.log('  Symbol:', tokenSymbol)
-                    console.log('  Decimals:', tokenDecimals)
-                    console.log('  Amount to send:', args.amount, tokenSymbol)
-                    
-                    tokenInfo = {
-                        name: tokenName,
-                        symbol: tokenSymbol,
-                        decimals: tokenDecimals,
-                        address: tokenAddress
-                    }
-                } catch (tokenError) {
-                    console.log('Could not get token details:', tokenError)
-                }
-                
-                // Also check if the contract has code
-                const code = await this.provider.getCode(args.oftAddress)
-                if (code === '0x') {
-                    console.error('❌ Contract has no code - not deployed on this network!')
-                    throw new Error('OFT adapter is not deployed on the current network')
-                } else {
-                    console.log('✅ Contract has code - deployed on this network')
-                }
-            } catch (error) {
-                console.log('Could not get token address:', error)
-                if (error instanceof Error && error.message.includes('not deployed')) {
-                    throw error
+                tokenInfo = {
+                    name: tokenName,
+                    symbol: tokenSymbol,
+                    decimals: oftConfig.decimals,
+                    address: oftConfig.underlyingToken
                 }
+            } catch (tokenError) {
+                console.log('Could not get token details:', tokenError)
             }
             
-            const amountUnits = parseUnits(args.amount, oftConfig.decimals)
-            const minAmountUnits = args.minAmount 
-                ? parseUnits(args.minAmount, oftConfig.decimals) 
-                : amountUnits
+            const { amountUnits, analysis } = this.resolveSendAmounts(args, oftConfig)
 
             console.log('Amount units:', amountUnits.toString())
-            console.log('Min amount units:', minAmountUnits.toString())
 
-            const toBytes = addressToBytes32(args.to)
+            const dstChainType = endpointIdToChainType(args.dstEid)
+            const isSolanaDst = dstChainType === ChainType.SOLANA
+            const toBytes = encodeRecipient(args.to, args.dstEid)
             const extraOptions = this.buildOptions(args)
 
-            console.log('To bytes:', ethers.hexlify(toBytes))
+            console.log(`To bytes (${dstChainType}):`, ethers.hexlify(toBytes))
             console.log('Extra options:', extraOptions)
 
             // Build sendParam object
@@ -287,30 +549,107 @@ export class OFTClient {
                 dstEid: args.dstEid,
                 to: ethers.hexlify(toBytes),
                 amountLD: amountUnits.toString(),
-                minAmountLD: minAmountUnits.toString(),
+                minAmountLD: '0',
                 extraOptions: extraOptions,
                 composeMsg: args.composeMsg || '0x',
                 oftCmd: '0x',
             }
 
+            // Limits, OFT fees and the expected received amount
+            let oftQuote = await this.quoteOFT(args.oftAddress, sendParam)
+            if (!oftQuote) {
+                console.log('quoteOFT unavailable, probing quoteSend for limits...')
+                const limit = await this.probeSendLimits(args.oftAddress, args.dstEid, amountUnits, oftConfig.decimals, oftConfig.decimalConversionRate)
+                oftQuote = limit ? { limit, feeDetails: [], source: 'probe' } : null
+            }
+            console.log('OFT quote:', oftQuote)
+
+            const expectedReceivedLD = oftQuote?.receipt?.amountReceivedLD ?? analysis.bridgedAmountLD
+            const minAmountUnits = this.resolveMinAmount(args, oftConfig, expectedReceivedLD)
+            sendParam.minAmountLD = minAmountUnits.toString()
+            console.log('Min amount units:', minAmountUnits.toString(), args.slippageBps !== undefined ? `(${args.slippageBps} bps slippage)` : '')
+
             console.log('Calling quoteSend with sendParam object...')
             console.log('Parameters:', sendParam)
 
-            const signer = await this.getSigner()
-            const oft = new ethers.Contract(args.oftAddress, IOFT_ABI, signer)
+            const oft = new ethers.Contract(args.oftAddress, IOFT_ABI, this.provider)
             
             console.log('Calling quoteSend...')
-            // Call quoteSend with sendParam object and false for payInLzToken
-            const result = await oft.quoteSend(sendParam, false)
+            // Quote both payment modes so they can be compared; lzToken quotes revert when unsupported
+            const nativeResult = await oft.quoteSend(sendParam, false)
+            let lzTokenResult: [bigint, bigint] | null = null
+            try {
+                lzTokenResult = await oft.quoteSend(sendParam, true)
+            } catch (lzTokenError) {
+                console.log('lzToken payment not available:', lzTokenError)
+            }
+            if (args.payInLzToken && !lzTokenResult) {
+                throw new Error('This pathway does not accept lzToken (ZRO) fee payment')
+            }
+            const result = args.payInLzToken && lzTokenResult ? lzTokenResult : nativeResult
             console.log('Quote result:', result)
 
+            const feeOptions: FeeOptions = {
+                native: { nativeFee: nativeResult[0], lzTokenFee: nativeResult[1] },
+                lzToken: lzTokenResult ? { nativeFee: lzTokenResult[0], lzTokenFee: lzTokenResult[1] } : undefined
+            }
+
+            let effectiveOptions: EffectiveOptions | undefined
+            try {
+                effectiveOptions = await this.getEffectiveOptions(args.oftAddress, args.dstEid, extraOptions, sendParam.composeMsg)
+                console.log('Effective options:', effectiveOptions.combinedOptions, `(${effectiveOptions.source})`)
+            } catch (optionsError) {
+                console.log('Could not work out effective options:', optionsError)
+            }
+
+            // A compose message without lzCompose gas would be stored on the destination but never executed
+            const composeError = checkComposeOptions(sendParam.composeMsg, effectiveOptions?.summary ?? summarizeExecutorOptions(extraOptions))
+            if (composeError) {
+                throw new Error(composeError)
+            }
+
+            let composeFrom: string | undefined
+            if (sendParam.composeMsg !== '0x' && !this.isReadOnly()) {
+                composeFrom = await this.getSignerAddress()
+            }
+
+            let lzTokenStatus: LzTokenStatus | undefined
+            try {
+                lzTokenStatus = await this.getLzTokenStatus(args.oftAddress)
+            } catch (statusError) {
+                console.log('Could not read lzToken status:', statusError)
+            }
+
             return {
                 nativeFee: result[0],
                 lzTokenFee: result[1],
-                tokenInfo: tokenInfo || undefined
+                tokenInfo: tokenInfo || undefined,
+                oftQuote: oftQuote ?? undefined,
+                feeOptions,
+                lzTokenStatus,
+                amountAnalysis: analysis,
+                minAmountLD: minAmountUnits,
+                effectiveOptions,
+                recipient: {
+                    chainType: dstChainType,
+                    bytes32: ethers.hexlify(toBytes),
+                    solanaRentLamports: isSolanaDst ? SOLANA_TOKEN_ACCOUNT_RENT_LAMPORTS : undefined,
+                    solanaRentIncluded: isSolanaDst ? !!args.includeSolanaRent : undefined
+                },
+                slippageBps: args.minAmount ? undefined : args.slippageBps,
+                composeFrom,
+                oftAddress: args.oftAddress,
+                oftConfig,
+                sendParam,
+                decimals: oftConfig.decimals
             }
         } catch (error) {
             console.error('Quote error:', error)
+            // Keep decoded reverts typed so callers can show the remedy
+            const failure = toOFTError(error)
+            if (failure.data) {
+                throw failure
+            }
             if (error instanceof Error) {
                 throw new Error(`Failed to get quote: ${error.message}`)
             }
@@ -319,9 +658,192 @@ export class OFTClient {
     }
 
     /**
-     * Send tokens cross-chain
+     * Read the endpoint's lzToken (ZRO) and, when a wallet is connected, the
+     * signer's lzToken balance and allowance towards the EndpointV2
+     */
+    async getLzTokenStatus(oftAddress: string): Promise<LzTokenStatus> {
+        const oft = new ethers.Contract(oftAddress, IOFT_ABI, this.provider)
+        const endpointAddress: string = await oft.endpoint()
+        const endpoint = new ethers.Contract(endpointAddress, ENDPOINT_V2_ABI, this.provider)
+        const lzTokenAddress: string = await endpoint.lzToken()
+
+        if (lzTokenAddress === ethers.ZeroAddress) {
+            return { endpoint: endpointAddress, lzToken: null }
+        }
+
+        const lzToken = new ethers.Contract(lzTokenAddress, IERC20_ABI, this.provider)
+        const status: LzTokenStatus = { endpoint: endpointAddress, lzToken: lzTokenAddress }
+        try {
+            status.symbol = await lzToken.symbol()
+        } catch {
+            status.symbol = 'ZRO'
+        }
+
+        if (!this.isReadOnly()) {
+            const owner = await this.getSignerAddress()
+            status.balance = await lzToken.balanceOf(owner)
+            status.allowance = await lzToken.allowance(owner, endpointAddress)
+        }
+        return status
+    }
+
+    /**
+     * Work out the EndpointV2's lzToken (ZRO) allowance for a fee paid in lzToken.
+     * Throws when the signer does not hold the fee; the plan's method is none when
+     * the allowance already covers it, else approve (never batched, the endpoint
+     * pulls the fee in the same send). Pass the quote's lzTokenStatus to skip reading it again.
+     */
+    async getLzTokenApprovalPlan(oftAddress: string, lzTokenFee: bigint, lzTokenStatus?: LzTokenStatus): Promise<ApprovalPlan> {
+        const status = lzTokenStatus?.balance !== undefined ? lzTokenStatus : await this.getLzTokenStatus(oftAddress)
+        if (!status.lzToken) {
+            throw new Error('The endpoint has no lzToken configured, pay the fee in native gas instead')
+        }
+
+        console.log('🪙 lzToken fee check:')
+        console.log('  lzToken:', status.lzToken)
+        console.log('  Balance:', status.balance?.toString())
+        console.log('  Allowance to endpoint:', status.allowance?.toString())
+        console.log('  Required fee:', lzTokenFee.toString())
+
+        if ((status.balance ?? 0n) < lzTokenFee) {
+            throw new Error(`Insufficient ${status.symbol} balance. Have: ${ethers.formatEther(status.balance ?? 0n)}, Need: ${ethers.formatEther(lzTokenFee)}`)
+        }
+
+        const allowance = status.allowance ?? 0n
+        return {
+            token: status.lzToken,
+            owner: await this.getSignerAddress(),
+            spender: status.endpoint,
+            amountLD: lzTokenFee,
+            approvalAmountLD: lzTokenFee,
+            strategy: DEFAULT_APPROVAL_STRATEGY,
+            allowance,
+            method: allowance < lzTokenFee ? 'approve' : 'none',
+            batched: false
+        }
+    }
+
+    /**
+     * Make sure the signer holds enough lzToken and has approved the EndpointV2 to pull the fee
      */
-    async sendTokens(args: EvmSendArgs): Promise<SendResult> {
+    async ensureLzTokenApproval(oftAddress: string, lzTokenFee: bigint): Promise<void> {
+        const plan = await this.getLzTokenApprovalPlan(oftAddress, lzTokenFee)
+        if (plan.method !== 'none') {
+            console.log('  Approving endpoint to spend lzToken...')
+            await this.executeApproval(plan)
+        }
+    }
+
+    /**
+     * Call IOFT.quoteOFT for limits, fee details and the expected receipt.
+     * Slippage is ignored so the receipt is returned even below minAmountLD.
+     * Returns null when the OFT does not implement quoteOFT.
+     */
+    async quoteOFT(oftAddress: string, sendParam: SendParams): Promise<OFTQuote | null> {
+        const oft = new ethers.Contract(oftAddress, IOFT_ABI, this.provider)
+        try {
+            const [limit, feeDetails, receipt] = await oft.quoteOFT({ ...sendParam, minAmountLD: '0' })
+            return {
+                limit: { minAmountLD: limit.minAmountLD, maxAmountLD: limit.maxAmountLD },
+                feeDetails: feeDetails.map((detail: { feeAmountLD: bigint; description: string }) => ({
+                    feeAmountLD: detail.feeAmountLD,
+                    description: detail.description
+                })),
+                receipt: { amountSentLD: receipt.amountSentLD, amountReceivedLD: receipt.amountReceivedLD },
+                source: 'quoteOFT'
+            }
+        } catch (error) {
+            console.log('quoteOFT not available:', error)
+            return null
+        }
+    }
+
+    /**
+     * Find the min and max sendable amounts by binary searching quoteSend, for
+     * adapters without quoteOFT. The search runs in shared-decimals units, the
+     * granularity amounts are sent at, so it is exact after at most 64 calls per
+     * bound; results are cached per OFT and destination.
+     */
+    async probeSendLimits(
+        oftAddress: string,
+        dstEid: number,
+        referenceAmountLD: bigint,
+        decimals: number,
+        decimalConversionRate?: bigint
+    ): Promise<OFTLimit | null> {
+        const cacheKey = `${oftAddress.toLowerCase()}:${dstEid}`
+        const cached = this.probedLimits.get(cacheKey)
+        if (cached) return cached
+
+        const oft = new ethers.Contract(oftAddress, IOFT_ABI, this.provider)
+        const canQuote = async (amountLD: bigint): Promise<boolean> => {
+            try {
+                await oft.quoteSend({
+                    dstEid,
+                    to: ethers.ZeroHash,
+                    amountLD: amountLD.toString(),
+                    minAmountLD: '0',
+                    extraOptions: '0x',
+                    composeMsg: '0x',
+                    oftCmd: '0x'
+                }, false)
+                return true
+            } catch {
+                return false
+            }
+        }
+
+        const localDecimals = Number(decimals)
+        const rate = decimalConversionRate && decimalConversionRate > 0n
+            ? decimalConversionRate
+            : getDecimalConversionRate(localDecimals, Math.min(localDecimals, DEFAULT_SHARED_DECIMALS))
+        const canQuoteSD = (amountSD: bigint) => canQuote(amountSD * rate)
+
+        // Need one quotable amount to search from
+        let anchorSD = referenceAmountLD / rate
+        if (anchorSD === 0n || anchorSD > MAX_SHARED_AMOUNT_SD || !(await canQuoteSD(anchorSD))) {
+            anchorSD = 10n ** BigInt(localDecimals) / rate || 1n
+            if (!(await canQuoteSD(anchorSD))) return null
+        }
+
+        // Smallest quotable amount in [1, anchor]: lo never quotes, hi always does
+        let minSD = 1n
+        if (!(await canQuoteSD(1n))) {
+            let lo = 1n
+            let hi = anchorSD
+            while (hi - lo > 1n) {
+                const mid = (lo + hi) / 2n
+                if (await canQuoteSD(mid)) hi = mid
+                else lo = mid
+            }
+            minSD = hi
+        }
+
+        // Largest quotable amount in [anchor, uint64 shared-decimals limit]: lo always quotes, hi never does
+        let maxSD = MAX_SHARED_AMOUNT_SD
+        if (!(await canQuoteSD(MAX_SHARED_AMOUNT_SD))) {
+            let lo = anchorSD
+            let hi = MAX_SHARED_AMOUNT_SD
+            while (hi - lo > 1n) {
+                const mid = (lo + hi) / 2n
+                if (await canQuoteSD(mid)) lo = mid
+                else hi = mid
+            }
+            maxSD = lo
+        }
+
+        // Dust below the conversion rate is not sent, so it does not count against the max
+        const limit = { minAmountLD: minSD * rate, maxAmountLD: maxSD * rate + rate - 1n }
+        this.probedLimits.set(cacheKey, limit)
+        return limit
+    }
+
+    /**
+     * Send tokens cross-chain. Runs a TransferFlow, so quoting, approval, simulation
+     * and submission each happen once; pass onEvent to follow its progress and
+     * review to confirm the decoded transaction before the wallet opens.
+     */
+    async sendTokens(args: EvmSendArgs, onEvent?: TransferListener, review?: TransferReviewer): Promise<SendResult> {
         if (endpointIdToChainType(args.srcEid) !== ChainType.EVM) {
             throw new Error(`non-EVM srcEid (${args.srcEid}) not supported`)
         }
@@ -329,330 +851,367 @@ export class OFTClient {
         console.log('🚀 Starting sendTokens process...')
         console.log('Input args:', JSON.stringify(args, null, 2))
 
-        const oftConfig = await this.getOFTConfig(args.oftAddress)
-        console.log('OFT config:', oftConfig)
-        
-        // Handle approval if needed
-        console.log('🔐 Checking approval requirements...')
-        await this.handleApproval(args.oftAddress, args.amount, oftConfig.decimals)
-
-        const amountUnits = parseUnits(args.amount, oftConfig.decimals)
-        const minAmountUnits = args.minAmount 
-            ? parseUnits(args.minAmount, oftConfig.decimals) 
-            : amountUnits
-
-        console.log('💰 Amount calculations:')
-        console.log('  Amount (human):', args.amount)
-        console.log('  Amount (units):', amountUnits.toString())
-        console.log('  Min amount (units):', minAmountUnits.toString())
-
-        const toBytes = addressToBytes32(args.to)
-        const extraOptions = this.buildOptions(args)
-
-        console.log('📦 Transaction parameters:')
-        console.log('  To address:', args.to)
-        console.log('  To bytes:', ethers.hexlify(toBytes))
-        console.log('  Extra options:', extraOptions)
-
-        // Quote the fee
-        console.log('💸 Getting fee quote...')
-        const msgFee = await this.quoteSend(args)
-        console.log('Fee quote:', {
-            nativeFee: msgFee.nativeFee.toString(),
-            lzTokenFee: msgFee.lzTokenFee.toString()
-        })
-
-        // Validate transaction parameters before sending
-        console.log('🔍 Validating transaction parameters...')
-        const validation = await this.validateTransactionParams(args, amountUnits, minAmountUnits, msgFee)
+        const flow = new TransferFlow(this, args, review)
+        if (onEvent) {
+            flow.subscribe(onEvent)
+        }
+        return await flow.run()
+    }
+
+    /**
+     * Throw if a quoted transfer cannot go through: bad parameters or balances too low
+     */
+    async assertCanSend(args: EvmSendArgs, quote: QuoteResult): Promise<void> {
+        const validation = await this.validateTransactionParams(args, BigInt(quote.sendParam.amountLD), quote.minAmountLD, quote)
         if (!validation.isValid) {
             console.error('❌ Transaction validation failed:')
             validation.errors.forEach(error => console.error('  -', error))
             throw new Error(`Transaction validation failed: ${validation.errors.join(', ')}`)
         }
         console.log('✅ Transaction parameters validated')
+    }
 
-        // Send the transaction
+    private async getSendArgs(quote: QuoteResult): Promise<{ oft: ethers.Contract; fee: [bigint, bigint]; refundAddress: string }> {
         const signer = await this.getSigner()
-        const oft = new ethers.Contract(args.oftAddress, IOFT_ABI, signer)
-        const refundAddress = await signer.getAddress()
-        
-        console.log('📝 Preparing transaction...')
-        console.log('  OFT address:', args.oftAddress)
-        console.log('  Refund address:', refundAddress)
-        console.log('  Fee tuple:', [msgFee.nativeFee.toString(), msgFee.lzTokenFee.toString()])
-        
-        // Log the exact parameters being sent
-        const sendParams = {
-            dstEid: args.dstEid,
-            to: ethers.hexlify(toBytes),
-            amountLD: amountUnits.toString(),
-            minAmountLD: minAmountUnits.toString(),
-            extraOptions: extraOptions,
-            composeMsg: args.composeMsg || '0x',
-            oftCmd: '0x',
-            fee: [msgFee.nativeFee.toString(), msgFee.lzTokenFee.toString()],
-            refundAddress: refundAddress,
-            value: msgFee.nativeFee.toString()
+        return {
+            oft: new ethers.Contract(quote.oftAddress, IOFT_ABI, signer),
+            fee: [BigInt(quote.nativeFee), BigInt(quote.lzTokenFee)],
+            refundAddress: await signer.getAddress()
         }
-        
-        console.log('📤 Transaction parameters:')
-        console.log(JSON.stringify(sendParams, null, 2))
-        
-        // Check if we have enough ETH for the transaction
-        const balance = await signer.provider.getBalance(refundAddress)
-        const requiredEth = msgFee.nativeFee
-        console.log('💎 ETH balance check:')
-        console.log('  Current balance:', ethers.formatEther(balance), 'ETH')
-        console.log('  Required fee:', ethers.formatEther(requiredEth), 'ETH')
-        console.log('  Sufficient funds:', balance >= BigInt(requiredEth))
-        
-        if (balance < BigInt(requiredEth)) {
-            throw new Error(`Insufficient ETH for fees. Have: ${ethers.formatEther(balance)} ETH, Need: ${ethers.formatEther(requiredEth)} ETH`)
-        }
-        
-        // Check token balance and allowance
+    }
+
+    /**
+     * Gas limit of the quoted send. Throws an OFTError when the send would revert.
+     */
+    async estimateSendGas(quote: QuoteResult): Promise<bigint> {
+        const { oft, fee, refundAddress } = await this.getSendArgs(quote)
         try {
-            const tokenContract = new ethers.Contract(oftConfig.underlyingToken, [
-                'function balanceOf(address owner) external view returns (uint256)',
-                'function allowance(address owner, address spender) external view returns (uint256)',
-                'function decimals() external view returns (uint8)',
-                'function approve(address spender, uint256 amount) external returns (bool)'
-            ], signer)
-            
-            const tokenBalance = await tokenContract.balanceOf(refundAddress)
-            const allowance = await tokenContract.allowance(refundAddress, args.oftAddress)
-            const tokenDecimals = await tokenContract.decimals()
-            
-            console.log('🎯 Token balance check:')
-            console.log('  Token address:', oftConfig.underlyingToken)
-            console.log('  Balance:', ethers.formatUnits(tokenBalance, tokenDecimals))
-            console.log('  Allowance:', ethers.formatUnits(allowance, tokenDecimals))
-            console.log('  Required amount:', ethers.formatUnits(amountUnits, tokenDecimals))
-            console.log('  Sufficient balance:', tokenBalance >= amountUnits)
-            console.log('  Sufficient allowance:', allowance >= amountUnits)
-            
-            if (tokenBalance < amountUnits) {
-                throw new Error(`Insufficient token balance. Have: ${ethers.formatUnits(tokenBalance, tokenDecimals)}, Need: ${ethers.formatUnits(amountUnits, tokenDecimals)}`)
+            const gasLimit: bigint = await oft.send.estimateGas(quote.sendParam, fee, refundAddress, { value: fee[0] })
+            console.log('✅ estimateGas successful:', gasLimit.toString())
+            return gasLimit
+        } catch (estimateError) {
+            console.error('❌ estimateGas failed:', estimateError)
+            const failure = toOFTError(estimateError)
+            console.error(`  ${failure.code}: ${failure.message}`)
+            throw failure
+        }
+    }
+
+    /**
+     * Current base fee and slow/normal/fast priority fee suggestions from eth_feeHistory
+     */
+    async getGasFeeSuggestions(): Promise<GasFeeSuggestions> {
+        return await fetchFeeSuggestions(this.provider)
+    }
+
+    /**
+     * Fees to send the transfer's transactions with under a gas setting
+     */
+    async getGasPricing(settings: GasSettings = DEFAULT_GAS_SETTINGS, suggestions?: GasFeeSuggestions): Promise<GasPricing> {
+        suggestions ??= await this.getGasFeeSuggestions()
+        return { fees: resolveGasFees(settings, suggestions), eip1559: suggestions.eip1559 }
+    }
+
+    /**
+     * Total native cost of a quoted transfer: the LayerZero native fee plus the gas of the
+     * send and, when the allowance is short, of the approval. The send cannot be estimated
+     * before its approval (or without a wallet), a typical limit is used then. Plans and
+     * suggestions passed in `known` are used as they are.
+     */
+    async estimateSendCost(
+        quote: QuoteResult,
+        strategy: ApprovalStrategy = DEFAULT_APPROVAL_STRATEGY,
+        settings: GasSettings = DEFAULT_GAS_SETTINGS,
+        known: KnownSendCostInputs = {}
+    ): Promise<SendCostEstimate> {
+        const suggestions = known.suggestions ?? await this.getGasFeeSuggestions()
+        const nativeFee = BigInt(quote.nativeFee)
+        // Without a wallet the refund address only matters for the calldata size
+        const sender = this.isReadOnly() ? undefined : await this.getSignerAddress()
+        const sendTx: L1FeeTransaction = {
+            from: sender,
+            to: quote.oftAddress,
+            data: oftInterface.encodeFunctionData('send', [quote.sendParam, [nativeFee, BigInt(quote.lzTokenFee)], sender ?? ethers.ZeroAddress]),
+            value: nativeFee,
+            ...suggestions.normal
+        }
+
+        if (this.isReadOnly()) {
+            const l1 = await this.estimateL1DataFee({ ...sendTx, gasLimit: TYPICAL_SEND_GAS }, false)
+            return priceSendCost({ gasLimit: TYPICAL_SEND_GAS, approvalGasLimit: 0n, approximate: true, ...l1 }, nativeFee, suggestions, settings)
+        }
+
+        const plan = known.approvalPlan !== undefined
+            ? known.approvalPlan
+            : await this.getApprovalPlan(quote.oftAddress, BigInt(quote.sendParam.amountLD), strategy, quote.oftConfig)
+        let approvalGasLimit = 0n
+        let approvalTx: L1FeeTransaction | null = null
+        let approvalEstimated = false
+        if (plan && plan.method === 'permit') {
+            approvalGasLimit = TYPICAL_PERMIT_GAS
+            // Signature fields are fixed-size, placeholders give the same calldata length
+            approvalTx = {
+                from: plan.owner,
+                to: plan.token,
+                data: permitInterface.encodeFunctionData('permit', [plan.owner, plan.spender, plan.approvalAmountLD, ethers.MaxUint256, 27, ethers.ZeroHash, ethers.ZeroHash])
             }
-            
-            // Check and handle allowance
-            if (allowance < amountUnits) {
-                console.log('⚠️ Insufficient allowance detected')
-                console.log('  Current allowance:', ethers.formatUnits(allowance, tokenDecimals))
-                console.log('  Required amount:', ethers.formatUnits(amountUnits, tokenDecimals))
-                console.log('  Requesting approval...')
-                
-                // Request approval for the exact amount needed
-                const approveTx = await tokenContract.approve(args.oftAddress, amountUnits)
-                console.log('  Approval transaction sent:', approveTx.hash)
-                
-                // Wait for approval confirmation
-                const approveReceipt = await approveTx.wait()
-                console.log('  Approval confirmed in block:', approveReceipt.blockNumber)
-                
-                // Verify the new allowance
-                const newAllowance = await tokenContract.allowance(refundAddress, args.oftAddress)
-                console.log('  New allowance:', ethers.formatUnits(newAllowance, tokenDecimals))
-                
-                if (newAllowance < amountUnits) {
-                    throw new Error('Approval failed - insufficient allowance after approval')
+        } else if (plan && plan.method === 'approve') {
+            ({ tx: approvalTx, gasLimit: approvalGasLimit, estimated: approvalEstimated } = await this.estimateApproveGas(plan))
+        }
+
+        // Paying in lzToken may need its own approve to the endpoint, always a separate transaction
+        let lzTokenApproval: { tx: L1FeeTransaction; gasLimit: bigint; estimated: boolean } | null = null
+        if (known.lzTokenPlan !== undefined) {
+            if (known.lzTokenPlan?.method === 'approve') {
+                lzTokenApproval = await this.estimateApproveGas(known.lzTokenPlan)
+            }
+        } else if (BigInt(quote.lzTokenFee) > 0n) {
+            try {
+                const lzTokenPlan = await this.getLzTokenApprovalPlan(quote.oftAddress, BigInt(quote.lzTokenFee), quote.lzTokenStatus)
+                if (lzTokenPlan.method === 'approve') {
+                    lzTokenApproval = await this.estimateApproveGas(lzTokenPlan)
                 }
-                
-                console.log('✅ Approval successful')
-            } else {
-                console.log('✅ Sufficient allowance already exists')
+            } catch (lzTokenError) {
+                // The transfer reports a short lzToken balance itself
+                console.log('  Could not plan the lzToken approval:', lzTokenError)
             }
-        } catch (error) {
-            console.log('Could not check token balance/allowance:', error)
-            // Continue with the transfer even if we can't check balance/allowance
-            // The smart contract will handle the validation
         }
-        
-        console.log('🚀 Sending transaction...')
-        
-        try {
-            // Log the exact function call parameters for debugging
-            console.log('📋 Function call details:')
-            console.log('  Function: oft.send')
-            console.log('  Parameters:')
-            console.log('    dstEid:', args.dstEid)
-            console.log('    to (hex):', ethers.hexlify(toBytes))
-            console.log('    amountLD:', amountUnits.toString())
-            console.log('    minAmountLD:', minAmountUnits.toString())
-            console.log('    extraOptions:', extraOptions)
-            console.log('    composeMsg:', args.composeMsg || '0x')
-            console.log('    oftCmd:', '0x')
-            console.log('    fee tuple:', [msgFee.nativeFee.toString(), msgFee.lzTokenFee.toString()])
-            console.log('    refundAddress:', refundAddress)
-            console.log('    value:', msgFee.nativeFee.toString())
-            
-            // Test the transaction with estimateGas first
-            console.log('🔍 Testing transaction with estimateGas...')
+
+        let gasLimit = TYPICAL_SEND_GAS
+        let approximate = true
+        if (approvalGasLimit === 0n && !lzTokenApproval) {
             try {
-                // Create the sendParam tuple as expected by the OFT ABI
-                const sendParam = {
-                    dstEid: args.dstEid,
-                    to: ethers.hexlify(toBytes),
-                    amountLD: amountUnits.toString(),
-                    minAmountLD: minAmountUnits.toString(),
-                    extraOptions: extraOptions,
-                    composeMsg: args.composeMsg || '0x',
-                    oftCmd: '0x'
-                }
-                
-                const estimatedGas = await oft.send.estimateGas(
-                    sendParam, // sendParam tuple
-                    [msgFee.nativeFee, msgFee.lzTokenFee], // fee tuple
-                    refundAddress,
-                    {
-                        value: msgFee.nativeFee,
-                    }
-                )
-                console.log('✅ estimateGas successful:', estimatedGas.toString())
+                gasLimit = await this.estimateSendGas(quote)
+                approximate = false
             } catch (estimateError) {
-                console.error('❌ estimateGas failed:', estimateError)
-                
-                // Try to decode the error if possible
-                if (estimateError instanceof Error) {
-                    const errorMessage = estimateError.message
-                    console.error('Error details:', errorMessage)
-                    
-                    // Check for specific error patterns
-                    if (errorMessage.includes('execution reverted')) {
-                        console.error('Transaction would revert. Possible causes:')
-                        console.error('1. Insufficient token balance')
-                        console.error('2. Insufficient allowance')
-                        console.error('3. Invalid destination EID')
-                        console.error('4. Invalid recipient address')
-                        console.error('5. Amount too small or too large')
-                        console.error('6. Network not supported by OFT adapter')
-                        console.error('7. OFT adapter not properly configured')
-                        
-                        // Try to decode the transaction data that would be sent
-                        try {
-                            const sendParam = {
-                                dstEid: args.dstEid,
-                                to: ethers.hexlify(toBytes),
-                                amountLD: amountUnits.toString(),
-                                minAmountLD: minAmountUnits.toString(),
-                                extraOptions: extraOptions,
-                                composeMsg: args.composeMsg || '0x',
-                                oftCmd: '0x'
-                            }
-                            const txData = oft.interface.encodeFunctionData('send', [
-                                sendParam, // sendParam tuple
-                                [msgFee.nativeFee, msgFee.lzTokenFee], // fee tuple
-                                refundAddress
-                            ])
-                            this.decodeTransactionData(txData)
-                        } catch (decodeError) {
-                            console.log('Could not encode transaction data for decoding:', decodeError)
-                        }
-                    }
-                }
-                
-                throw estimateError
-            }
-            
-            // Create the sendParam tuple for the actual transaction
-            const sendParam = {
-                dstEid: args.dstEid,
-                to: ethers.hexlify(toBytes),
-                amountLD: amountUnits.toString(),
-                minAmountLD: minAmountUnits.toString(),
-                extraOptions: extraOptions,
-                composeMsg: args.composeMsg || '0x',
-                oftCmd: '0x'
+                // The send itself reports the revert, keep the estimate usable meanwhile
+                console.log('  Using a typical send gas limit:', estimateError)
             }
-            
-            console.log('📤 About to send transaction...')
-            console.log('  sendParam:', sendParam)
-            console.log('  fee tuple:', [msgFee.nativeFee.toString(), msgFee.lzTokenFee.toString()])
-            console.log('  refundAddress:', refundAddress)
-            console.log('  value:', msgFee.nativeFee.toString())
-            
-            const tx = await oft.send(
-                sendParam, // sendParam tuple
-                [msgFee.nativeFee, msgFee.lzTokenFee], // fee tuple
-                refundAddress,
-                {
-                    value: msgFee.nativeFee,
-                }
-            )
-            
-            console.log('📤 Transaction sent, waiting for confirmation...')
+        }
 
-            console.log('✅ Transaction sent successfully!')
-            console.log('  Transaction hash:', tx.hash)
-            console.log('  Transaction object:', tx)
-            
-            console.log('⏳ Waiting for transaction confirmation...')
-            const receipt = await tx.wait()
-            console.log('✅ Transaction confirmed!')
-            console.log('  Receipt object:', receipt)
-            console.log('  Receipt status:', receipt.status)
-            console.log('  Gas used:', receipt.gasUsed.toString())
-            console.log('  Block number:', receipt.blockNumber)
-            console.log('  Transaction hash from receipt:', receipt.transactionHash)
-            
-            // Check if transaction was successful
-            if (receipt.status === 0) {
-                console.error('❌ Transaction failed (status = 0)')
-                throw new Error('Transaction failed - check the transaction details for more information')
-            }
-            
-            let txHash = receipt.transactionHash
-            console.log('  Transaction hash from receipt:', txHash)
-            
-            // Fallback to tx.hash if receipt.transactionHash is undefined
-            if (!txHash) {
-                console.log('  ⚠️ receipt.transactionHash is undefined, using tx.hash')
-                txHash = tx.hash
-                console.log('  Using tx.hash:', txHash)
-            }
-            
-            console.log('  Final txHash:', txHash)
-            console.log('  txHash type:', typeof txHash)
-            console.log('  txHash length:', txHash ? txHash.length : 'undefined')
-            
-            if (!txHash) {
-                console.error('  ❌ No transaction hash available!')
-                throw new Error('Transaction hash is undefined - transaction may have failed')
-            }
-            
-            const scanLink = getLayerZeroScanLink(txHash, args.srcEid >= 40_000 && args.srcEid < 50_000)
-            console.log('  Scan link:', scanLink)
+        const l1 = await this.estimateL1DataFee({ ...sendTx, gasLimit }, !approximate)
+        if (approvalTx && plan && !plan.batched) {
+            const approvalL1 = await this.estimateL1DataFee({ ...approvalTx, ...suggestions.normal, gasLimit: approvalGasLimit }, approvalEstimated)
+            l1.l1DataFee += approvalL1.l1DataFee
+        }
+        if (lzTokenApproval) {
+            const lzTokenL1 = await this.estimateL1DataFee({ ...lzTokenApproval.tx, ...suggestions.normal, gasLimit: lzTokenApproval.gasLimit }, lzTokenApproval.estimated)
+            l1.l1DataFee += lzTokenL1.l1DataFee
+            approvalGasLimit += lzTokenApproval.gasLimit
+        }
 
-            const result = { txHash, scanLink }
-            console.log('  Final result object:', result)
-            return result
-        } catch (error) {
-            console.error('❌ Transaction failed:', error)
-            
-            // Enhanced error analysis
-            if (error instanceof Error) {
-                const errorMessage = error.message
-                console.error('Error details:', errorMessage)
-                
-                // Try to decode the error if it's a revert
-                if (errorMessage.includes('execution reverted')) {
-                    console.error('Transaction reverted. Common causes:')
-                    console.error('1. Insufficient token balance')
-                    console.error('2. Insufficient allowance')
-                    console.error('3. Invalid parameters (amount, addresses, etc.)')
-                    console.error('4. Network incompatibility')
-                    console.error('5. Contract not deployed on target network')
-                    console.error('6. Insufficient ETH for gas fees')
-                }
-                
-                // Check if it's a specific revert with data
-                if (errorMessage.includes('data=')) {
-                    console.error('Revert data available - this might contain specific error information')
-                }
-            }
-            
-            throw error
+        const estimate = priceSendCost({ gasLimit, approvalGasLimit, approximate, ...l1 }, nativeFee, suggestions, settings)
+        console.log('⛽ Send cost estimate:', estimate)
+        return estimate
+    }
+
+    /**
+     * The approve transaction of a plan and its gas limit, a typical limit when it cannot be estimated
+     */
+    private async estimateApproveGas(plan: ApprovalPlan): Promise<{ tx: L1FeeTransaction; gasLimit: bigint; estimated: boolean }> {
+        const tx = {
+            from: plan.owner,
+            to: plan.token,
+            data: erc20Interface.encodeFunctionData('approve', [plan.spender, plan.approvalAmountLD])
+        }
+        try {
+            return { tx, gasLimit: await this.provider.estimateGas(tx), estimated: true }
+        } catch (approveError) {
+            console.log('  Could not estimate approval gas:', approveError)
+            return { tx, gasLimit: TYPICAL_APPROVE_GAS, estimated: false }
+        }
+    }
+
+    /**
+     * L1 data fee of one source transaction on OP-stack and Arbitrum chains. Where the
+     * chain's gas estimate already covers it (Arbitrum) it is only counted for typical limits.
+     */
+    private async estimateL1DataFee(tx: L1FeeTransaction, gasEstimated: boolean): Promise<{ l1DataFee: bigint; l1FeeKind?: L1FeeKind }> {
+        try {
+            const estimate = await estimateL1Fee(this.provider, tx)
+            if (!estimate) return { l1DataFee: 0n }
+            console.log(`  L1 data fee (${estimate.kind}):`, estimate.l1Fee.toString())
+            const counted = estimate.includedInGasEstimate && gasEstimated ? 0n : estimate.l1Fee
+            return { l1DataFee: counted, l1FeeKind: estimate.kind }
+        } catch (l1Error) {
+            console.log('  Could not estimate the L1 data fee:', l1Error)
+            return { l1DataFee: 0n }
+        }
+    }
+
+    /**
+     * Dry-run the quoted send: estimate its gas and read the fee the endpoint will
+     * actually charge (MessagingReceipt.fee). Throws when the send would revert.
+     */
+    async simulateSend(quote: QuoteResult): Promise<{ gasLimit: bigint; messagingFee?: MessagingFee }> {
+        const { oft, fee, refundAddress } = await this.getSendArgs(quote)
+        const sendParam = quote.sendParam
+        const gasLimit = await this.estimateSendGas(quote)
+
+        let messagingFee: MessagingFee | undefined
+        try {
+            const [msgReceipt] = await oft.send.staticCall(sendParam, fee, refundAddress, { value: fee[0] })
+            messagingFee = { nativeFee: msgReceipt.fee.nativeFee, lzTokenFee: msgReceipt.fee.lzTokenFee }
+            console.log('  Simulated messaging fee:', messagingFee)
+        } catch (simulateError) {
+            console.log('  Could not simulate send for the messaging fee:', simulateError)
+        }
+
+        return { gasLimit, messagingFee }
+    }
+
+    /**
+     * Build the exact send transaction for a quote and decode it back through the IOFT ABI
+     * for review. With simulate, the send is also estimated; leave it off while a token or
+     * lzToken approval is still pending since the send would revert until then.
+     */
+    async previewSend(quote: QuoteResult, simulate: boolean, pricing?: GasPricing, sendCost?: SendCostEstimate): Promise<SendPreview> {
+        const { oft, fee, refundAddress } = await this.getSendArgs(quote)
+        const call: SendCall = {
+            from: refundAddress,
+            to: quote.oftAddress,
+            value: fee[0],
+            data: oft.interface.encodeFunctionData('send', [quote.sendParam, fee, refundAddress])
+        }
+
+        const decoded = decodeSendCall(call.data)
+        const mismatches = diffSendCall(decoded, quote.sendParam, { nativeFee: fee[0], lzTokenFee: fee[1] })
+        if (mismatches.length > 0) {
+            throw new Error(`Encoded send call does not match the quote: ${mismatches.join(', ')}`)
+        }
+
+        const preview: SendPreview = {
+            call,
+            decoded,
+            recipient: describeSendRecipient(decoded),
+            options: decodeOptions(decoded.sendParam.extraOptions),
+            effectiveOptions: quote.effectiveOptions,
+            decimals: quote.decimals,
+            totalNativeCost: call.value
+        }
+
+        if (simulate) {
+            const { gasLimit, messagingFee } = await this.simulateSend(quote)
+            const { fees } = pricing ?? await this.getGasPricing()
+            preview.gasLimit = gasLimit
+            preview.messagingFee = messagingFee
+            preview.maxFeePerGas = fees.maxFeePerGas
+            preview.gasCost = gasLimit * fees.maxFeePerGas
+            const { l1DataFee } = await this.estimateL1DataFee({ ...call, gasLimit, ...fees }, true)
+            preview.l1DataFee = l1DataFee
+            preview.totalNativeCost = call.value + preview.gasCost + l1DataFee
+        } else if (sendCost) {
+            // The send is not simulated before its approval, the estimate prices both instead
+            preview.sendCost = sendCost
+            preview.maxFeePerGas = sendCost.fees.maxFeePerGas
+            preview.gasCost = sendCost.gasCost + sendCost.approvalGasCost
+            preview.l1DataFee = sendCost.l1DataFee
+            preview.totalNativeCost = sendCost.totalNativeCost
+        }
+
+        console.log('🔎 Send preview:', preview)
+        return preview
+    }
+
+    /**
+     * Ask the wallet to sign and broadcast the quoted send
+     */
+    async submitSend(quote: QuoteResult, gasLimit?: bigint, pricing?: GasPricing): Promise<ethers.ContractTransactionResponse> {
+        const { oft, fee, refundAddress } = await this.getSendArgs(quote)
+        const overrides: ethers.Overrides = {
+            value: fee[0],
+            ...(gasLimit !== undefined ? { gasLimit: withGasHeadroom(gasLimit) } : {}),
+            ...(pricing ? toFeeOverrides(pricing) : {})
+        }
+        console.log('📤 Sending transaction...')
+        console.log('  sendParam:', quote.sendParam)
+        console.log('  fee tuple:', fee.map(part => part.toString()))
+        console.log('  refundAddress:', refundAddress)
+        console.log('  overrides:', overrides)
+        const tx = await oft.send(quote.sendParam, fee, refundAddress, overrides)
+        console.log('✅ Transaction sent:', tx.hash)
+        return tx
+    }
+
+    /**
+     * Submit the approval (or permit) and the quoted send as one atomic wallet_sendCalls batch
+     * and return the batch id
+     */
+    async submitBatchedSend(approvalCall: WalletCall, quote: QuoteResult): Promise<string> {
+        if (!this.wallet) {
+            throw new Error('Batched sends need an EIP-1193 wallet')
+        }
+        const { oft, fee, refundAddress } = await this.getSendArgs(quote)
+        const sendCall: WalletCall = {
+            to: quote.oftAddress,
+            data: oft.interface.encodeFunctionData('send', [quote.sendParam, fee, refundAddress]),
+            value: fee[0]
+        }
+
+        const { chainId } = await this.provider.getNetwork()
+        console.log('📦 Sending approval and transfer with wallet_sendCalls...')
+        const batchId = await sendCalls(this.wallet, refundAddress, chainId, [approvalCall, sendCall])
+        console.log('  Batch id:', batchId)
+        return batchId
+    }
+
+    /**
+     * Wait for a batched send and return the receipt of the transaction holding the send
+     */
+    async waitForBatchedSend(batchId: string): Promise<ethers.TransactionReceipt | null> {
+        if (!this.wallet) {
+            throw new Error('Batched sends need an EIP-1193 wallet')
+        }
+        const txHashes = await waitForCalls(this.wallet, batchId)
+        // Smart accounts may run the whole batch in one transaction, the send is always in the last one
+        return await this.provider.getTransactionReceipt(txHashes[txHashes.length - 1])
+    }
+
+    /**
+     * Turn the receipt of a confirmed send into a SendResult, recovering the message from its logs
+     */
+    buildSendResult(
+        args: EvmSendArgs,
+        quote: QuoteResult,
+        receipt: ethers.TransactionReceipt | null,
+        extras: Pick<SendResult, 'messagingFee' | 'approval'> = {}
+    ): SendResult {
+        if (!receipt) {
+            throw new Error('Transaction receipt is unavailable - transaction may have been dropped')
+        }
+        console.log('✅ Transaction confirmed in block', receipt.blockNumber, 'gas used', receipt.gasUsed.toString())
+        if (receipt.status === 0) {
+            console.error('❌ Transaction failed (status = 0)')
+            throw new Error('Transaction failed - check the transaction details for more information')
+        }
+
+        const txHash = receipt.hash
+        const scanLink = getLayerZeroScanLink(txHash, args.srcEid >= 40_000 && args.srcEid < 50_000)
+        console.log('  Scan link:', scanLink)
+
+        // Recover GUID, nonce and the amounts actually debited/credited after dust removal
+        const message = parseSendReceipt(receipt.logs, args.oftAddress) ?? undefined
+        if (message) {
+            console.log('  Message GUID:', message.guid)
+            console.log('  Nonce:', message.nonce?.toString())
+            console.log('  Amount sent (LD):', message.amountSentLD.toString())
+            console.log('  Amount received (LD):', message.amountReceivedLD.toString())
+        } else {
+            console.log('  ⚠️ No OFTSent event found in receipt logs')
+        }
+
+        return {
+            txHash,
+            scanLink,
+            srcEid: args.srcEid,
+            oftAddress: args.oftAddress,
+            decimals: quote.decimals,
+            message,
+            messagingFee: extras.messagingFee,
+            gasFee: receipt.fee,
+            minAmountLD: quote.minAmountLD,
+            slippageBps: quote.slippageBps,
+            approval: extras.approval
         }
     }
 
@@ -671,8 +1230,14 @@ export class OFTClient {
             }
             
             // Validate recipient address
-            if (!args.to.startsWith('0x') || args.to.length !== 42) {
-                errors.push('Invalid recipient address format')
+            const recipientError = validateRecipient(args.to, args.dstEid)
+            if (recipientError) {
+                errors.push(recipientError)
+            }
+            
+            // Validate compose message
+            if (args.composeMsg && !ethers.isHexString(args.composeMsg, true)) {
+                errors.push('Invalid compose message: must be 0x-prefixed hex bytes')
             }
             
             // Validate amount
@@ -685,73 +1250,32 @@ export class OFTClient {
                 errors.push('Min amount cannot be greater than amount')
             }
             
-            // Validate fees
-            if (BigInt(msgFee.nativeFee) <= 0n) {
-                errors.push('Invalid native fee: must be greater than 0')
-            }
-            
-            // Check if OFT adapter supports the destination network
-            try {
-                const signer = await this.getSigner()
-                const oft = new ethers.Contract(args.oftAddress, [
-                    'function quoteSend(tuple(uint32 dstEid, bytes32 to, uint256 amountLD, uint256 minAmountLD, bytes extraOptions, bytes composeMsg, bytes oftCmd) sendParam, bool payInLzToken) external view returns (uint256 nativeFee, uint256 lzTokenFee)'
-                ], signer)
-                
-                // Test if the OFT adapter can quote for this destination
-                const testSendParam = {
-                    dstEid: args.dstEid,
-                    to: '0x0000000000000000000000000000000000000000000000000000000000000000',
-                    amountLD: amountUnits.toString(),
-                    minAmountLD: minAmountUnits.toString(),
-                    extraOptions: '0x',
-                    composeMsg: '0x',
-                    oftCmd: '0x'
-                }
-                
-                try {
-                    await oft.quoteSend(testSendParam, false)
-                    console.log('✅ OFT adapter supports destination network')
-                } catch (quoteError) {
-                    errors.push(`OFT adapter does not support destination network ${args.dstEid}`)
-                    console.log('❌ OFT adapter quote test failed:', quoteError)
+            // Validate fees; with lzToken payment the native part may legitimately be zero
+            if (args.payInLzToken) {
+                if (BigInt(msgFee.lzTokenFee) <= 0n) {
+                    errors.push('Invalid lzToken fee: must be greater than 0')
                 }
-                
-            } catch (error) {
-                errors.push('Could not validate OFT adapter support')
+            } else if (BigInt(msgFee.nativeFee) <= 0n) {
+                errors.push('Invalid native fee: must be greater than 0')
             }
             
-            // Check token balance and allowance
+            // Check token balance; the allowance is handled by the approval step
             try {
-                const oftConfig = await this.getOFTConfig(args.oftAddress)
                 const signer = await this.getSigner()
-                const tokenContract = new ethers.Contract(oftConfig.underlyingToken, [
-                    'function balanceOf(address owner) external view returns (uint256)',
-                    'function allowance(address owner, address spender) external view returns (uint256)'
-                ], signer)
+                const tokenContract = new ethers.Contract(msgFee.oftConfig.underlyingToken, IERC20_ABI, signer)
                 
                 const signerAddress = await signer.getAddress()
                 const balance = await tokenContract.balanceOf(signerAddress)
-                const allowance = await tokenContract.allowance(signerAddress, args.oftAddress)
                 
                 console.log('💰 Balance check:')
                 console.log('  Token balance:', balance.toString())
                 console.log('  Required amount:', amountUnits.toString())
                 console.log('  Sufficient balance:', balance >= amountUnits)
                 
-                console.log('🔐 Allowance check:')
-                console.log('  Current allowance:', allowance.toString())
-                console.log('  Required amount:', amountUnits.toString())
-                console.log('  Sufficient allowance:', allowance >= amountUnits)
-                
                 if (balance < amountUnits) {
                     errors.push(`Insufficient token balance. Have: ${balance.toString()}, Need: ${amountUnits.toString()}`)
                 }
                 
-                // Don't fail validation for insufficient allowance - this will be handled by the approval flow
-                if (allowance < amountUnits) {
-                    console.log('⚠️ Insufficient allowance detected - will be handled by approval flow')
-                }
-                
             } catch (error) {
                 errors.push('Could not check token balance/allowance')
             }
@@ -760,7 +1284,7 @@ export class OFTClient {
             try {
                 const signer = await this.getSigner()
                 const signerAddress = await signer.getAddress()
-                const balance = await signer.provider.getBalance(signerAddress)
+                const balance = await this.provider.getBalance(signerAddress)
                 
                 console.log('💎 ETH balance check:')
                 console.log('  ETH balance:', balance.toString())
@@ -790,63 +1314,21 @@ export class OFTClient {
     }
 
     /**
-     * Decode and analyze transaction data for debugging
+     * Look up a send by transaction hash on the current network and decode its
+     * arguments, options and OFTSent / PacketSent events
      */
-    decodeTransactionData(data: string): void {
-        try {
-            console.log('🔍 Decoding transaction data...')
-            console.log('Raw data:', data)
-            
-            // The first 4 bytes are the function selector
-            const functionSelector = data.slice(0, 10)
-            console.log('Function selector:', functionSelector)
-            
-            // Remove the function selector to get the parameters
-            const parameters = data.slice(10)
-            console.log('Parameters (hex):', parameters)
-            
-            // Try to decode common OFT function selectors
-            const knownSelectors: Record<string, string> = {
-                '0x03951715': 'send(uint32,bytes32,uint256,uint256,bytes,bytes,bytes,(uint256,uint256),address)',
-                '0x03951716': 'send(uint32,bytes32,uint256,uint256,bytes,bytes,bytes,(uint256,uint256),address,uint256)',
-                '0x03951717': 'send(uint32,bytes32,uint256,uint256,bytes,bytes,bytes,(uint256,uint256),address,uint256,uint256)'
-            }
-            
-            const functionName = knownSelectors[functionSelector]
-            if (functionName) {
-                console.log('Function name:', functionName)
-            } else {
-                console.log('Unknown function selector')
-            }
-            
-            // Try to decode the parameters if we know the function
-            if (functionName && functionName.includes('send')) {
-                try {
-                    // This is a simplified decode - in practice you'd use a proper ABI decoder
-                    console.log('Parameter analysis:')
-                    console.log('  - First 32 bytes (dstEid):', parameters.slice(0, 64))
-                    console.log('  - Next 32 bytes (to):', parameters.slice(64, 128))
-                    console.log('  - Next 32 bytes (amountLD):', parameters.slice(128, 192))
-                    console.log('  - Next 32 bytes (minAmountLD):', parameters.slice(192, 256))
-                    
-                    // Convert hex to decimal for readable values
-                    const dstEid = parseInt(parameters.slice(0, 64), 16)
-                    const amountLD = BigInt('0x' + parameters.slice(128, 192))
-                    const minAmountLD = BigInt('0x' + parameters.slice(192, 256))
-                    
-                    console.log('Decoded values:')
-                    console.log('  - dstEid:', dstEid)
-                    console.log('  - amountLD:', amountLD.toString())
-                    console.log('  - minAmountLD:', minAmountLD.toString())
-                    
-                } catch (decodeError) {
-                    console.log('Could not decode parameters:', decodeError)
-                }
+    async inspectTransaction(txHash: string): Promise<SendInspection> {
+        console.log('🔍 Inspecting transaction', txHash)
+        const inspection = await inspectTransaction(this.provider, txHash)
+        if (inspection.oftAddress && (inspection.call || inspection.message)) {
+            try {
+                inspection.decimals = (await this.getOFTConfig(inspection.oftAddress)).decimals
+            } catch (configError) {
+                console.log('  Could not read OFT decimals:', configError)
             }
-            
-        } catch (error) {
-            console.log('Could not decode transaction data:', error)
         }
+        console.log('  Inspection:', inspection)
+        return inspection
     }
 
     /**
@@ -893,17 +1375,15 @@ export class OFTClient {
     }
 
     /**
-     * Check if a token has an OFT adapter by looking for common patterns
+     * Check if a token is an OFT itself or has an OFT adapter listed in the token registry
      */
-    async findOFTAdapterForToken(tokenAddress: string): Promise<string | null> {
+    async findOFTAdapterForToken(tokenAddress: string, registry?: TokenRegistry): Promise<string | null> {
         try {
-            const signer = await this.getSigner()
-            
             // Check if the token itself implements OFT functions
             const tokenContract = new ethers.Contract(tokenAddress, [
                 'function quoteSend(tuple(uint32 dstEid, bytes32 to, uint256 amountLD, uint256 minAmountLD, bytes extraOptions, bytes composeMsg, bytes oftCmd) sendParam, bool payInLzToken) external view returns (uint256 nativeFee, uint256 lzTokenFee)',
                 'function send(uint32 dstEid, bytes32 to, uint256 amountLD, uint256 minAmountLD, bytes extraOptions, bytes composeMsg, bytes oftCmd, tuple(uint256 nativeFee, uint256 lzTokenFee) fee, address refundAddress) external payable returns (bytes32 guid)'
-            ], signer)
+            ], this.provider)
             
             // Try to call a simple view function to see if it's an OFT
             try {
@@ -923,28 +1403,16 @@ export class OFTClient {
                 console.log('Token is not an OFT, checking for adapters...')
             }
             
-            // Check common OFT adapter patterns
-            const network = await this.getChainId()
-            const knownAdapters: Record<string, Record<number, string>> = {
-                // USDC
-                '0xA0b86a33E6441b8c4C8C8C8C8C8C8C8C8C8C8C8': {
-                    1: '0x176211869cA2b568f2A7D4EE941E073a821EE1ff',
-                    56: '0x9aF3b7DC29D3C4A1D9eC55F6B2026655c43f4d4a',
-                    137: '0x176211869cA2b568f2A7D4EE941E073a821EE1ff'
-                },
-                // USDT
-                '0xdAC17F958D2ee523a2206206994597C13D831ec7': {
-                    1: '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238',
-                    56: '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238',
-                    137: '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238'
+            // Look the token up in the registry for the current network
+            if (registry) {
+                const srcEid = await this.getCurrentSrcEid()
+                const deployment = findDeploymentForToken(registry, srcEid, tokenAddress)
+                if (deployment) {
+                    console.log(`Found ${deployment.symbol} ${deployment.type} in registry:`, deployment.address)
+                    return deployment.address
                 }
             }
             
-            const adapterAddress = knownAdapters[tokenAddress.toLowerCase()]?.[network]
-            if (adapterAddress) {
-                return adapterAddress
-            }
-            
             return null
         } catch (error) {
             console.error('Error finding OFT adapter:', error)
@@ -968,12 +1436,11 @@ export class OFTClient {
             console.log('✅ Contract exists at address')
             
             // Check if contract has OFT functions
-            const signer = await this.getSigner()
             const oft = new ethers.Contract(oftAddress, [
                 'function token() external view returns (address)',
                 'function quoteSend(tuple(uint32 dstEid, bytes32 to, uint256 amountLD, uint256 minAmountLD, bytes extraOptions, bytes composeMsg, bytes oftCmd) sendParam, bool payInLzToken) external view returns (uint256 nativeFee, uint256 lzTokenFee)',
                 'function send(uint32 dstEid, bytes32 to, uint256 amountLD, uint256 minAmountLD, bytes extraOptions, bytes composeMsg, bytes oftCmd, tuple(uint256 nativeFee, uint256 lzTokenFee) fee, address refundAddress) external payable returns (bytes32 guid)'
-            ], signer)
+            ], this.provider)
             
             // Try to get underlying token
             try {
@@ -1121,12 +1588,12 @@ export class OFTClient {
             console.log('  Amount:', amount)
             console.log('  Decimals:', decimals)
             
-            const signer = await this.getSigner()
             const oft = new ethers.Contract(oftAddress, [
                 'function quoteSend(tuple(uint32 dstEid, bytes32 to, uint256 amountLD, uint256 minAmountLD, bytes extraOptions, bytes composeMsg, bytes oftCmd) sendParam, bool payInLzToken) external view returns (uint256 nativeFee, uint256 lzTokenFee)',
                 'function token() external view returns (address)',
-                'function decimals() external view returns (uint8)'
-            ], signer)
+                'function decimals() external view returns (uint8)',
+                'function decimalConversionRate() external view returns (uint256)'
+            ], this.provider)
             
             // Get token decimals from OFT adapter
             let oftDecimals: number
@@ -1142,102 +1609,88 @@ export class OFTClient {
             const amountUnits = parseUnits(amount, oftDecimals)
             console.log('  Amount in units:', amountUnits.toString())
             
-            // Test with a minimal amount first
-            const testAmount = parseUnits('0.001', oftDecimals) // Test with 0.001 tokens
-            console.log('  Test amount:', testAmount.toString())
-            
-            const testSendParam = {
+            const sendParam: SendParams = {
                 dstEid: dstEid,
-                to: '0x0000000000000000000000000000000000000000000000000000000000000000',
-                amountLD: testAmount.toString(),
-                minAmountLD: testAmount.toString(),
+                to: ethers.ZeroHash,
+                amountLD: amountUnits.toString(),
+                minAmountLD: '0',
                 extraOptions: '0x',
                 composeMsg: '0x',
                 oftCmd: '0x'
             }
             
-            try {
-                console.log('  Testing with minimal amount...')
-                const testQuote = await oft.quoteSend(testSendParam, false)
-                console.log('  ✅ Minimal amount quote successful')
-                console.log('    Native fee:', testQuote[0].toString())
-                console.log('    LZ fee:', testQuote[1].toString())
-                
-                // Now test with the actual amount
-                const actualSendParam = {
-                    dstEid: dstEid,
-                    to: '0x0000000000000000000000000000000000000000000000000000000000000000',
-                    amountLD: amountUnits.toString(),
-                    minAmountLD: amountUnits.toString(),
-                    extraOptions: '0x',
-                    composeMsg: '0x',
-                    oftCmd: '0x'
-                }
-                
+            // Read the adapter's real limits instead of guessing with a test amount
+            const oftQuote = await this.quoteOFT(oftAddress, sendParam)
+            let limit = oftQuote?.limit ?? null
+            if (!limit) {
+                let decimalConversionRate: bigint | undefined
                 try {
-                    console.log('  Testing with actual amount...')
-                    const actualQuote = await oft.quoteSend(actualSendParam, false)
-                    console.log('  ✅ Actual amount quote successful')
-                    console.log('    Native fee:', actualQuote[0].toString())
-                    console.log('    LZ fee:', actualQuote[1].toString())
-                    
-                    return {
-                        isSupported: true,
-                        recommendations: [
-                            'OFT adapter supports this destination and amount',
-                            'Ready for cross-chain transfer'
-                        ]
-                    }
-                    
-                } catch (actualError) {
-                    console.log('  ❌ Actual amount quote failed:', actualError)
-                    
-                    // Check if it's a minimum amount issue
-                    if (actualError instanceof Error && actualError.message.includes('execution reverted')) {
-                        return {
-                            isSupported: false,
-                            error: 'Amount too small for this OFT adapter',
-                            recommendations: [
-                                'Try increasing the transfer amount',
-                                'Check the minimum transfer amount for this token',
-                                'Some OFT adapters have minimum amount requirements'
-                            ]
-                        }
-                    }
-                    
-                    return {
-                        isSupported: false,
-                        error: 'OFT adapter does not support this amount',
-                        recommendations: [
-                            'Try a different amount',
-                            'Check if the OFT adapter has specific requirements'
-                        ]
-                    }
+                    decimalConversionRate = await oft.decimalConversionRate()
+                } catch {
+                    decimalConversionRate = undefined
                 }
-                
-            } catch (minimalError) {
-                console.log('  ❌ Minimal amount quote failed:', minimalError)
-                
-                // Check if it's a destination issue
-                if (minimalError instanceof Error && minimalError.message.includes('execution reverted')) {
-                    return {
-                        isSupported: false,
-                        error: `OFT adapter does not support destination network ${dstEid}`,
-                        recommendations: [
-                            'Check if this OFT adapter supports the destination network',
-                            'Try a different destination network',
-                            'Some OFT adapters only support specific networks'
-                        ]
-                    }
+                limit = await this.probeSendLimits(oftAddress, dstEid, amountUnits, oftDecimals, decimalConversionRate)
+            }
+            
+            if (!limit) {
+                console.log('  ❌ No quotable amount found for destination')
+                return {
+                    isSupported: false,
+                    error: `OFT adapter does not support destination network ${dstEid}`,
+                    recommendations: [
+                        'Check if this OFT adapter supports the destination network',
+                        'Try a different destination network',
+                        'Some OFT adapters only support specific networks'
+                    ]
+                }
+            }
+            
+            console.log('  Min amount (LD):', limit.minAmountLD.toString())
+            console.log('  Max amount (LD):', limit.maxAmountLD.toString())
+            
+            if (amountUnits < limit.minAmountLD) {
+                return {
+                    isSupported: false,
+                    error: `Amount too small for this OFT adapter (minimum ${ethers.formatUnits(limit.minAmountLD, oftDecimals)})`,
+                    recommendations: [
+                        'Try increasing the transfer amount'
+                    ]
                 }
+            }
+            
+            if (amountUnits > limit.maxAmountLD) {
+                return {
+                    isSupported: false,
+                    error: `Amount too large for this OFT adapter (maximum ${ethers.formatUnits(limit.maxAmountLD, oftDecimals)})`,
+                    recommendations: [
+                        'Try a smaller amount or split the transfer',
+                        'Rate limits may free up capacity over time'
+                    ]
+                }
+            }
+            
+            try {
+                console.log('  Testing with actual amount...')
+                const actualQuote = await oft.quoteSend(sendParam, false)
+                console.log('  ✅ Actual amount quote successful')
+                console.log('    Native fee:', actualQuote[0].toString())
+                console.log('    LZ fee:', actualQuote[1].toString())
                 
+                return {
+                    isSupported: true,
+                    recommendations: [
+                        'OFT adapter supports this destination and amount',
+                        'Ready for cross-chain transfer'
+                    ]
+                }
+            } catch (actualError) {
+                console.log('  ❌ Actual amount quote failed:', actualError)
                 return {
                     isSupported: false,
-                    error: 'OFT adapter validation failed',
+                    error: 'OFT adapter does not support this amount',
                     recommendations: [
-                        'Check if the OFT adapter is properly deployed',
-                        'Verify the OFT adapter address is correct',
-                        'Try a different OFT adapter'
+                        'Try a different amount',
+                        'Check if the OFT adapter has specific requirements'
                     ]
                 }
             }
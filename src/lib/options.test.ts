@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest'
+import { ethers } from 'ethers'
+import { Options } from '@layerzerolabs/lz-v2-utilities'
+
+import { buildExtraOptions, combineOptions, decodeOptions, summarizeExecutorOptions } from './options'
+
+const RECEIVER = '0x000000000000000000000000000000000000dEaD'
+
+describe('buildExtraOptions / decodeOptions', () => {
+    it('round-trips every executor option type', () => {
+        const options = buildExtraOptions({
+            dstEid: 30101,
+            extraLzReceiveOptions: ['200000', '5'],
+            extraLzComposeOptions: ['1', '500000', '0'],
+            extraNativeDropOptions: ['1000', RECEIVER],
+            orderedExecution: true
+        })
+
+        const decoded = decodeOptions(options)
+        expect(decoded.optionsType).toBe(3)
+        expect(decoded.verifier).toEqual([])
+        expect(decoded.executor).toMatchObject([
+            { type: 'lzReceive', gas: 200000n, value: 5n },
+            { type: 'lzCompose', index: 1, gas: 500000n, value: 0n },
+            { type: 'nativeDrop', amount: 1000n, receiver: ethers.zeroPadValue(RECEIVER.toLowerCase(), 32) },
+            { type: 'orderedExecution' }
+        ])
+    })
+
+    it('keeps values above 2^53 exact', () => {
+        const gas = (2n ** 100n).toString()
+        const [option] = decodeOptions(buildExtraOptions({ dstEid: 30101, extraLzReceiveOptions: [gas, ''] })).executor
+        expect(option).toMatchObject({ type: 'lzReceive', gas: 2n ** 100n, value: 0n })
+    })
+
+    it('decodes empty options to no entries', () => {
+        expect(decodeOptions(buildExtraOptions({ dstEid: 30101 })).entries).toEqual([])
+    })
+
+    it('decodes DVN options with their verifier index', () => {
+        const options = Options.newOptions().addExecutorLzReceiveOption(100000, 0).addVerifierPrecrimeOption(2).toHex()
+        expect(decodeOptions(options).verifier).toMatchObject([{ type: 'precrime', verifierIndex: 2 }])
+    })
+
+    it('rejects odd lzReceive pairs and out of range values', () => {
+        expect(() => buildExtraOptions({ dstEid: 30101, extraLzReceiveOptions: ['1'] })).toThrow('expected pairs of gas,value')
+        expect(() => buildExtraOptions({ dstEid: 30101, extraLzComposeOptions: ['70000', '1', '0'] })).toThrow('exceeds the maximum')
+    })
+})
+
+describe('combineOptions', () => {
+    it('appends extra options after the enforced ones and sums them in the summary', () => {
+        const enforced = Options.newOptions().addExecutorLzReceiveOption(60000, 0).toHex()
+        const extra = Options.newOptions().addExecutorLzReceiveOption(40000, 1).toHex()
+
+        const combined = combineOptions(enforced, extra)
+        expect(decodeOptions(combined).executor).toHaveLength(2)
+        expect(summarizeExecutorOptions(combined)).toMatchObject({ lzReceiveGas: 100000n, lzReceiveValue: 1n })
+    })
+
+    it('returns either side when the other is empty', () => {
+        const options = Options.newOptions().addExecutorLzReceiveOption(60000, 0).toHex()
+        expect(combineOptions('0x', options)).toBe(options)
+        expect(combineOptions(options, Options.newOptions().toHex())).toBe(options)
+    })
+})
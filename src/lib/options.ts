@@ -0,0 +1,461 @@
+import { ethers } from 'ethers'
+import { ChainType, endpointIdToChainType } from '@layerzerolabs/lz-definitions'
+import { Options } from '@layerzerolabs/lz-v2-utilities'
+
+import { encodeRecipient, SOLANA_TOKEN_ACCOUNT_RENT_LAMPORTS } from './addresses'
+import type { EvmSendArgs } from './types'
+
+// OFT message types passed to enforcedOptions / combineOptions
+export const MSG_TYPE_SEND = 1
+export const MSG_TYPE_SEND_AND_CALL = 2
+
+export const MAX_UINT128 = 2n ** 128n - 1n
+const MAX_UINT16 = 2n ** 16n - 1n
+
+const OPTIONS_TYPE_1 = 1
+const OPTIONS_TYPE_2 = 2
+const OPTIONS_TYPE_3 = 3
+const WORKER_EXECUTOR = 1
+const WORKER_VERIFIER = 2
+
+/**
+ * A single executor option from a Type 3 options blob.
+ * encoded holds the option's bytes as they appear after the 0x0003 header.
+ */
+export type ExecutorOption = { encoded: string } & (
+    | { type: 'lzReceive'; gas: bigint; value: bigint }
+    | { type: 'nativeDrop'; amount: bigint; receiver: string }
+    | { type: 'lzCompose'; index: number; gas: bigint; value: bigint }
+    | { type: 'orderedExecution' }
+    | { type: 'lzRead'; gas: bigint; dataSize: number; value: bigint }
+    | { type: 'unknown'; optionType: number; params: string }
+)
+
+/**
+ * A DVN (verifier worker) option, addressed to the DVN at verifierIndex in the pathway's DVN list
+ */
+export type VerifierOption = { encoded: string; verifierIndex: number } & (
+    | { type: 'precrime' }
+    | { type: 'unknown'; optionType: number; params: string }
+)
+
+/**
+ * Any decoded option, tagged with the worker it is addressed to
+ */
+export type DecodedOption = ({ worker: 'executor' } & ExecutorOption) | ({ worker: 'dvn' } & VerifierOption)
+
+export interface DecodedOptions {
+    optionsType: number
+    executor: ExecutorOption[]
+    verifier: VerifierOption[]
+    // All options in encoding order
+    entries: DecodedOption[]
+}
+
+/**
+ * Totals the executor will act on once all options are applied
+ */
+export interface ExecutorOptionsSummary {
+    lzReceiveGas: bigint
+    lzReceiveValue: bigint
+    compose: { index: number; gas: bigint; value: bigint }[]
+    nativeDrops: { amount: bigint; receiver: string }[]
+    totalNativeDrop: bigint
+    orderedExecution: boolean
+}
+
+/**
+ * Enforced and extra options merged the way the OApp's combineOptions does it
+ */
+export interface EffectiveOptions {
+    msgType: number
+    enforcedOptions: string
+    extraOptions: string
+    combinedOptions: string
+    summary: ExecutorOptionsSummary
+    warnings: string[]
+    // Whether combinedOptions came from the contract's combineOptions or was merged locally
+    source: 'onchain' | 'local'
+}
+
+function readUint(data: string, offset: number, length: number): bigint {
+    return BigInt(ethers.dataSlice(data, offset, offset + length))
+}
+
+// Accepted parameter lengths per executor option type, value fields are optional
+const EXECUTOR_PARAM_SIZES: Record<number, number[]> = {
+    1: [16, 32],
+    2: [48],
+    3: [18, 34],
+    4: [0],
+    5: [20, 36]
+}
+
+function decodeExecutorOption(optionType: number, params: string, encoded: string): ExecutorOption {
+    const size = ethers.dataLength(params)
+    const expectedSizes = EXECUTOR_PARAM_SIZES[optionType]
+    if (expectedSizes && !expectedSizes.includes(size)) {
+        throw new Error(`Invalid executor option type ${optionType}: expected ${expectedSizes.join(' or ')} bytes of params, got ${size}`)
+    }
+    switch (optionType) {
+        case 1:
+            return { encoded, type: 'lzReceive', gas: readUint(params, 0, 16), value: size >= 32 ? readUint(params, 16, 16) : 0n }
+        case 2:
+            return { encoded, type: 'nativeDrop', amount: readUint(params, 0, 16), receiver: ethers.dataSlice(params, 16, 48) }
+        case 3:
+            return {
+                encoded,
+                type: 'lzCompose',
+                index: Number(readUint(params, 0, 2)),
+                gas: readUint(params, 2, 16),
+                value: size >= 34 ? readUint(params, 18, 16) : 0n
+            }
+        case 4:
+            return { encoded, type: 'orderedExecution' }
+        case 5:
+            return {
+                encoded,
+                type: 'lzRead',
+                gas: readUint(params, 0, 16),
+                dataSize: Number(readUint(params, 16, 4)),
+                value: size >= 36 ? readUint(params, 20, 16) : 0n
+            }
+        default:
+            return { encoded, type: 'unknown', optionType, params }
+    }
+}
+
+function decodeVerifierOption(verifierIndex: number, optionType: number, params: string, encoded: string): VerifierOption {
+    if (optionType === 1) {
+        return { encoded, verifierIndex, type: 'precrime' }
+    }
+    return { encoded, verifierIndex, type: 'unknown', optionType, params }
+}
+
+/**
+ * Decode an options blob. Legacy Type 1 and Type 2 options are mapped onto
+ * their executor equivalents; empty options decode to no entries.
+ */
+export function decodeOptions(options: string): DecodedOptions {
+    if (!ethers.isHexString(options, true)) {
+        throw new Error('Options must be a 0x-prefixed hex string with an even number of digits')
+    }
+    const length = ethers.dataLength(options)
+    if (length === 0) {
+        return { optionsType: OPTIONS_TYPE_3, executor: [], verifier: [], entries: [] }
+    }
+    if (length < 2) {
+        throw new Error(`Invalid options ${options}: too short for an options type`)
+    }
+
+    const optionsType = Number(readUint(options, 0, 2))
+
+    if (optionsType === OPTIONS_TYPE_1 && length !== 34) {
+        throw new Error(`Invalid Type 1 options: expected 34 bytes, got ${length}`)
+    }
+    if (optionsType === OPTIONS_TYPE_2 && (length <= 66 || length > 98)) {
+        throw new Error(`Invalid Type 2 options: expected 66 bytes plus a receiver address, got ${length}`)
+    }
+
+    if (optionsType === OPTIONS_TYPE_1 || optionsType === OPTIONS_TYPE_2) {
+        const executor: ExecutorOption[] = [{ encoded: options, type: 'lzReceive', gas: readUint(options, 2, 32), value: 0n }]
+        if (optionsType === OPTIONS_TYPE_2) {
+            executor.push({
+                encoded: options,
+                type: 'nativeDrop',
+                amount: readUint(options, 34, 32),
+                receiver: ethers.zeroPadValue(ethers.dataSlice(options, 66), 32)
+            })
+        }
+        return { optionsType, executor, verifier: [], entries: executor.map(option => ({ worker: 'executor', ...option })) }
+    }
+
+    if (optionsType !== OPTIONS_TYPE_3) {
+        throw new Error(`Unsupported options type ${optionsType}`)
+    }
+
+    const executor: ExecutorOption[] = []
+    const verifier: VerifierOption[] = []
+    const entries: DecodedOption[] = []
+    let cursor = 2
+    while (cursor < length) {
+        if (cursor + 3 > length) {
+            throw new Error(`Invalid options: truncated worker header at byte ${cursor}`)
+        }
+        const workerId = Number(readUint(options, cursor, 1))
+        const size = Number(readUint(options, cursor + 1, 2))
+        const end = cursor + 3 + size
+        if (end > length || size === 0) {
+            throw new Error(`Invalid options: worker ${workerId} option at byte ${cursor} declares ${size} bytes`)
+        }
+        const encoded = ethers.dataSlice(options, cursor, end)
+
+        if (workerId === WORKER_EXECUTOR) {
+            const optionType = Number(readUint(options, cursor + 3, 1))
+            const option = decodeExecutorOption(optionType, ethers.dataSlice(options, cursor + 4, end), encoded)
+            executor.push(option)
+            entries.push({ worker: 'executor', ...option })
+        } else if (workerId === WORKER_VERIFIER) {
+            if (size < 2) {
+                throw new Error(`Invalid options: DVN option at byte ${cursor} is missing its index or type`)
+            }
+            const option = decodeVerifierOption(
+                Number(readUint(options, cursor + 3, 1)),
+                Number(readUint(options, cursor + 4, 1)),
+                ethers.dataSlice(options, cursor + 5, end),
+                encoded
+            )
+            verifier.push(option)
+            entries.push({ worker: 'dvn', ...option })
+        } else {
+            throw new Error(`Invalid options: unknown worker ID ${workerId} at byte ${cursor}`)
+        }
+        cursor = end
+    }
+
+    return { optionsType, executor, verifier, entries }
+}
+
+/**
+ * One-line human readable description of a decoded option
+ */
+export function describeOption(option: DecodedOption): string {
+    if (option.worker === 'dvn') {
+        return option.type === 'precrime'
+            ? `DVN #${option.verifierIndex} precrime`
+            : `DVN #${option.verifierIndex} option type ${option.optionType} (params ${option.params})`
+    }
+    switch (option.type) {
+        case 'lzReceive':
+            return `lzReceive gas: ${option.gas}, value: ${option.value}`
+        case 'nativeDrop':
+            return `nativeDrop amount: ${option.amount} to ${option.receiver}`
+        case 'lzCompose':
+            return `lzCompose #${option.index} gas: ${option.gas}, value: ${option.value}`
+        case 'orderedExecution':
+            return 'orderedExecution'
+        case 'lzRead':
+            return `lzRead gas: ${option.gas}, data size: ${option.dataSize}, value: ${option.value}`
+        case 'unknown':
+            return `executor option type ${option.optionType} (params ${option.params})`
+    }
+}
+
+/**
+ * Add up executor options the way the executor applies them: lzReceive gas and
+ * value are summed, compose options are summed per index, native drops all apply.
+ */
+export function summarizeExecutorOptions(options: string): ExecutorOptionsSummary {
+    const summary: ExecutorOptionsSummary = {
+        lzReceiveGas: 0n,
+        lzReceiveValue: 0n,
+        compose: [],
+        nativeDrops: [],
+        totalNativeDrop: 0n,
+        orderedExecution: false
+    }
+
+    for (const option of decodeOptions(options).executor) {
+        if (option.type === 'lzReceive') {
+            summary.lzReceiveGas += option.gas
+            summary.lzReceiveValue += option.value
+        } else if (option.type === 'lzCompose') {
+            const existing = summary.compose.find(compose => compose.index === option.index)
+            if (existing) {
+                existing.gas += option.gas
+                existing.value += option.value
+            } else {
+                summary.compose.push({ index: option.index, gas: option.gas, value: option.value })
+            }
+        } else if (option.type === 'nativeDrop') {
+            summary.nativeDrops.push({ amount: option.amount, receiver: option.receiver })
+            summary.totalNativeDrop += option.amount
+        } else if (option.type === 'orderedExecution') {
+            summary.orderedExecution = true
+        }
+    }
+
+    return summary
+}
+
+function isEmptyOptions(options: string): boolean {
+    return ethers.dataLength(options) <= 2
+}
+
+/**
+ * Local equivalent of OAppOptionsType3.combineOptions: enforced options
+ * followed by the extra options without their type header.
+ */
+export function combineOptions(enforcedOptions: string, extraOptions: string): string {
+    if (ethers.dataLength(enforcedOptions) === 0) return extraOptions
+    if (isEmptyOptions(extraOptions)) return enforcedOptions
+
+    if (Number(readUint(extraOptions, 0, 2)) !== OPTIONS_TYPE_3) {
+        throw new Error('Extra options must be Type 3 when the OApp has enforced options')
+    }
+    return ethers.concat([enforcedOptions, ethers.dataSlice(extraOptions, 2)])
+}
+
+/**
+ * Point out extra options that repeat, inflate or contradict what the OApp enforces,
+ * and effective options that leave the destination under-provisioned
+ */
+export function checkOptionsMerge(enforcedOptions: string, extraOptions: string, msgType: number, summary: ExecutorOptionsSummary): string[] {
+    const warnings: string[] = []
+    const enforced = decodeOptions(enforcedOptions).executor
+    let extra: ExecutorOption[] = []
+    try {
+        extra = decodeOptions(extraOptions).executor
+    } catch (error) {
+        warnings.push(`Extra options could not be decoded: ${error instanceof Error ? error.message : String(error)}`)
+    }
+
+    const enforcedEncoded = new Set(enforced.map(option => option.encoded.toLowerCase()))
+    for (const option of extra) {
+        if (enforcedEncoded.has(option.encoded.toLowerCase())) {
+            warnings.push(`Extra ${option.type} option is identical to an enforced one and will be applied twice`)
+        }
+    }
+
+    const enforcedReceiveGas = enforced.reduce((total, option) => option.type === 'lzReceive' ? total + option.gas : total, 0n)
+    const extraReceiveGas = extra.reduce((total, option) => option.type === 'lzReceive' ? total + option.gas : total, 0n)
+    if (enforcedReceiveGas > 0n && extraReceiveGas > 0n) {
+        warnings.push(
+            `Extra lzReceive gas (${extraReceiveGas}) is added on top of the enforced ${enforcedReceiveGas}, ` +
+            `for ${summary.lzReceiveGas} in total. Extra options add to enforced ones, they do not replace them.`
+        )
+    }
+
+    if (enforced.some(option => option.type === 'orderedExecution') && extra.some(option => option.type === 'orderedExecution')) {
+        warnings.push('Ordered execution is already enforced, the extra option has no effect')
+    }
+
+    for (const option of extra) {
+        if (option.type !== 'nativeDrop') continue
+        const enforcedDrop = enforced.find(other => other.type === 'nativeDrop' && other.receiver.toLowerCase() === option.receiver.toLowerCase())
+        if (enforcedDrop) {
+            warnings.push(`Native drop to ${option.receiver} is already enforced; both drops will be paid`)
+        }
+    }
+
+    if (msgType === MSG_TYPE_SEND && summary.compose.length > 0) {
+        warnings.push('Compose options are set but there is no compose message, the compose gas will be paid for nothing')
+    }
+    if (msgType === MSG_TYPE_SEND_AND_CALL && summary.compose.length === 0) {
+        warnings.push('A compose message is set but no lzCompose gas is provided, the compose call will not be executed')
+    }
+    if (summary.lzReceiveGas === 0n) {
+        warnings.push('No lzReceive gas is enforced or provided, the executor has no gas to deliver the message')
+    }
+
+    return warnings
+}
+
+/**
+ * Send arguments that feed into the extra options
+ */
+export type ExtraOptionsArgs = Pick<
+    EvmSendArgs,
+    'dstEid' | 'extraLzReceiveOptions' | 'extraLzComposeOptions' | 'extraNativeDropOptions' | 'orderedExecution' | 'includeSolanaRent'
+>
+
+/**
+ * Extra options as edited in a form, one row per option with string inputs
+ */
+export interface ExecutorOptionsDraft {
+    lzReceive: { gas: string; value: string }[]
+    compose: { index: string; gas: string; value: string }[]
+    nativeDrops: { amount: string; recipient: string }[]
+    orderedExecution: boolean
+}
+
+export const EMPTY_EXECUTOR_OPTIONS_DRAFT: ExecutorOptionsDraft = {
+    lzReceive: [],
+    compose: [],
+    nativeDrops: [],
+    orderedExecution: false
+}
+
+/**
+ * Parse an unsigned integer option field without going through Number, so values above 2^53 stay exact.
+ * Empty optional fields parse to 0.
+ */
+export function parseOptionUint(value: string | undefined, label: string, max = MAX_UINT128, required = true): bigint {
+    const trimmed = (value ?? '').trim()
+    if (trimmed === '') {
+        if (required) throw new Error(`${label} is required`)
+        return 0n
+    }
+    if (!/^\d+$/.test(trimmed)) {
+        throw new Error(`${label} must be a non-negative integer, got "${trimmed}"`)
+    }
+    const parsed = BigInt(trimmed)
+    if (parsed > max) {
+        throw new Error(`${label} ${trimmed} exceeds the maximum of ${max}`)
+    }
+    return parsed
+}
+
+/**
+ * Flatten a draft into the pair / triplet string arrays EvmSendArgs expects
+ */
+export function draftToSendArgs(draft: ExecutorOptionsDraft): Pick<EvmSendArgs, 'extraLzReceiveOptions' | 'extraLzComposeOptions' | 'extraNativeDropOptions' | 'orderedExecution'> {
+    return {
+        extraLzReceiveOptions: draft.lzReceive.flatMap(option => [option.gas, option.value]),
+        extraLzComposeOptions: draft.compose.flatMap(option => [option.index, option.gas, option.value]),
+        extraNativeDropOptions: draft.nativeDrops.flatMap(option => [option.amount, option.recipient]),
+        orderedExecution: draft.orderedExecution
+    }
+}
+
+/**
+ * Encode the user-supplied extra options as Type 3 options
+ */
+export function buildExtraOptions(args: ExtraOptionsArgs): string {
+    let options = Options.newOptions()
+
+    const lzReceive = args.extraLzReceiveOptions ?? []
+    if (lzReceive.length % 2 !== 0) {
+        throw new Error('Invalid lzReceive options: expected pairs of gas,value')
+    }
+    for (let i = 0; i < lzReceive.length; i += 2) {
+        const gas = parseOptionUint(lzReceive[i], `lzReceive #${i / 2} gas`)
+        const value = parseOptionUint(lzReceive[i + 1], `lzReceive #${i / 2} value`, MAX_UINT128, false)
+        options = options.addExecutorLzReceiveOption(gas, value)
+    }
+
+    const compose = args.extraLzComposeOptions ?? []
+    if (compose.length % 3 !== 0) {
+        throw new Error('Invalid lzCompose options: expected triplets of index,gas,value')
+    }
+    for (let i = 0; i < compose.length; i += 3) {
+        const index = parseOptionUint(compose[i], `lzCompose #${i / 3} index`, MAX_UINT16)
+        const gas = parseOptionUint(compose[i + 1], `lzCompose #${i / 3} gas`)
+        const value = parseOptionUint(compose[i + 2], `lzCompose #${i / 3} value`, MAX_UINT128, false)
+        options = options.addExecutorComposeOption(Number(index), gas, value)
+    }
+
+    const nativeDrops = args.extraNativeDropOptions ?? []
+    if (nativeDrops.length % 2 !== 0) {
+        throw new Error('Invalid native drop options: expected pairs of amount,recipient')
+    }
+    for (let i = 0; i < nativeDrops.length; i += 2) {
+        const amount = parseOptionUint(nativeDrops[i], `Native drop #${i / 2} amount`)
+        const recipient = (nativeDrops[i + 1] ?? '').trim()
+        if (!recipient) {
+            throw new Error(`Native drop #${i / 2} recipient is required`)
+        }
+        options = options.addExecutorNativeDropOption(amount, encodeRecipient(recipient, args.dstEid))
+    }
+
+    if (args.orderedExecution) {
+        options = options.addExecutorOrderedExecutionOption()
+    }
+
+    // Solana recipients without a token account need the executor to fund its rent
+    if (args.includeSolanaRent && endpointIdToChainType(args.dstEid) === ChainType.SOLANA) {
+        options = options.addExecutorLzReceiveOption(0, SOLANA_TOKEN_ACCOUNT_RENT_LAMPORTS)
+    }
+
+    return options.toHex()
+}
@@ -0,0 +1,141 @@
+import { ethers } from 'ethers'
+import {
+    MainnetV2EndpointId,
+    Stage,
+    TestnetV2EndpointId,
+    endpointIdToChainType,
+    endpointIdToNetwork,
+    endpointIdToStage
+} from '@layerzerolabs/lz-definitions'
+
+import { IOFT_ABI, MULTICALL3_ABI, MULTICALL3_ADDRESS } from './abis'
+import { decodeRecipient } from './addresses'
+import { NETWORK_NAMES_BY_EID } from './networks'
+
+const oftInterface = new ethers.Interface(IOFT_ABI)
+
+/**
+ * A destination the OApp has a peer configured for
+ */
+export interface PeerInfo {
+    eid: number
+    network: string
+    chainType: string
+    // Raw bytes32 peer as stored on the source OApp
+    peer: string
+    // Peer in the destination chain's native address format
+    address: string
+}
+
+export interface PeerDiscoveryOptions {
+    // Endpoint IDs to check, defaults to every V2 EID of the source stage
+    eids?: number[]
+    // Calls per Multicall3 batch
+    batchSize?: number
+    // Parallel peers() calls when Multicall3 is unavailable
+    fallbackConcurrency?: number
+}
+
+/**
+ * All V2 endpoint IDs known to lz-definitions for a stage
+ */
+export function getKnownEndpointIds(stage: Stage): number[] {
+    const ids = stage === Stage.MAINNET
+        ? Object.values(MainnetV2EndpointId)
+        : stage === Stage.TESTNET
+            ? Object.values(TestnetV2EndpointId)
+            : []
+    return [...new Set(ids.filter((id): id is number => typeof id === 'number'))].sort((a, b) => a - b)
+}
+
+/**
+ * Display name for an endpoint ID, preferring the names used elsewhere in the app
+ */
+export function getNetworkName(eid: number): string {
+    if (NETWORK_NAMES_BY_EID[eid]) return NETWORK_NAMES_BY_EID[eid]
+    try {
+        return endpointIdToNetwork(eid)
+    } catch {
+        return `EID ${eid}`
+    }
+}
+
+function toPeerInfo(eid: number, peer: string): PeerInfo {
+    let network = `EID ${eid}`
+    let chainType = 'unknown'
+    let address = peer
+    try {
+        network = getNetworkName(eid)
+        chainType = endpointIdToChainType(eid)
+        address = decodeRecipient(peer, eid)
+    } catch {
+        // Unknown chain type, keep the raw bytes32
+    }
+    return { eid, network, chainType, peer, address }
+}
+
+async function readPeersWithMulticall(provider: ethers.Provider, oftAddress: string, eids: number[], batchSize: number): Promise<Map<number, string>> {
+    const multicall = new ethers.Contract(MULTICALL3_ADDRESS, MULTICALL3_ABI, provider)
+    const peers = new Map<number, string>()
+
+    for (let start = 0; start < eids.length; start += batchSize) {
+        const batch = eids.slice(start, start + batchSize)
+        const calls = batch.map(eid => ({
+            target: oftAddress,
+            allowFailure: true,
+            callData: oftInterface.encodeFunctionData('peers', [eid])
+        }))
+        const results: { success: boolean; returnData: string }[] = await multicall.aggregate3.staticCall(calls)
+        results.forEach((result, index) => {
+            if (!result.success || result.returnData === '0x') return
+            peers.set(batch[index], oftInterface.decodeFunctionResult('peers', result.returnData)[0])
+        })
+    }
+
+    return peers
+}
+
+async function readPeersDirectly(provider: ethers.Provider, oftAddress: string, eids: number[], concurrency: number): Promise<Map<number, string>> {
+    const oft = new ethers.Contract(oftAddress, IOFT_ABI, provider)
+    const peers = new Map<number, string>()
+
+    for (let start = 0; start < eids.length; start += concurrency) {
+        const batch = eids.slice(start, start + concurrency)
+        const results = await Promise.allSettled(batch.map(eid => oft.peers(eid) as Promise<string>))
+        results.forEach((result, index) => {
+            if (result.status === 'fulfilled') peers.set(batch[index], result.value)
+        })
+    }
+
+    return peers
+}
+
+/**
+ * Find every destination an OFT or adapter has a non-zero peer for.
+ * Peers are read through Multicall3 when it is deployed on the source chain,
+ * otherwise with chunked direct peers() calls.
+ */
+export async function discoverPeers(
+    provider: ethers.Provider,
+    oftAddress: string,
+    srcEid: number,
+    options: PeerDiscoveryOptions = {}
+): Promise<PeerInfo[]> {
+    const eids = (options.eids ?? getKnownEndpointIds(endpointIdToStage(srcEid))).filter(eid => eid !== srcEid)
+
+    let multicallPeers: Map<number, string> | null = null
+    const multicallCode = await provider.getCode(MULTICALL3_ADDRESS)
+    if (multicallCode !== '0x') {
+        try {
+            multicallPeers = await readPeersWithMulticall(provider, oftAddress, eids, options.batchSize ?? 200)
+        } catch (error) {
+            console.log('Multicall3 peer lookup failed, falling back to direct calls:', error)
+        }
+    }
+    const peers = multicallPeers ?? await readPeersDirectly(provider, oftAddress, eids, options.fallbackConcurrency ?? 20)
+
+    return eids
+        .map(eid => ({ eid, peer: peers.get(eid) }))
+        .filter((entry): entry is { eid: number; peer: string } => entry.peer !== undefined && entry.peer !== ethers.ZeroHash)
+        .map(({ eid, peer }) => toPeerInfo(eid, peer))
+}
@@ -0,0 +1,152 @@
+import { ethers } from 'ethers'
+
+import { ERC20_PERMIT_ABI } from './abis'
+
+const permitInterface = new ethers.Interface(ERC20_PERMIT_ABI)
+const PERMIT_SELECTOR = permitInterface.getFunction('permit')!.selector.slice(2)
+
+// Proxied tokens keep permit in the implementation behind this slot
+const EIP1967_IMPLEMENTATION_SLOT = '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc'
+
+// Tried in order when the token exposes neither eip712Domain() nor version()
+const FALLBACK_DOMAIN_VERSIONS = ['1', '2']
+
+export const DEFAULT_PERMIT_TTL_SECONDS = 30 * 60
+
+const PERMIT_TYPES = {
+    Permit: [
+        { name: 'owner', type: 'address' },
+        { name: 'spender', type: 'address' },
+        { name: 'value', type: 'uint256' },
+        { name: 'nonce', type: 'uint256' },
+        { name: 'deadline', type: 'uint256' }
+    ]
+}
+
+/**
+ * What is needed to sign an EIP-2612 permit for a token
+ */
+export interface PermitSupport {
+    token: string
+    domain: ethers.TypedDataDomain
+    nonce: bigint
+}
+
+export interface SignedPermit {
+    token: string
+    owner: string
+    spender: string
+    value: bigint
+    deadline: bigint
+    v: number
+    r: string
+    s: string
+}
+
+async function hasPermitFunction(provider: ethers.Provider, token: string): Promise<boolean> {
+    const code = await provider.getCode(token)
+    if (code.includes(PERMIT_SELECTOR)) return true
+
+    try {
+        const slot = await provider.getStorage(token, EIP1967_IMPLEMENTATION_SLOT)
+        const implementation = ethers.getAddress(ethers.dataSlice(slot, 12))
+        if (implementation === ethers.ZeroAddress) return false
+        return (await provider.getCode(implementation)).includes(PERMIT_SELECTOR)
+    } catch (error) {
+        console.log('Could not read the EIP-1967 implementation slot:', error)
+        return false
+    }
+}
+
+async function readDomainVersions(token: ethers.Contract): Promise<string[]> {
+    try {
+        const domain = await token.eip712Domain()
+        return [domain.version]
+    } catch {
+        // EIP-5267 is optional
+    }
+    try {
+        return [await token.version()]
+    } catch {
+        return FALLBACK_DOMAIN_VERSIONS
+    }
+}
+
+/**
+ * Check whether a token implements EIP-2612 and work out its EIP-712 domain.
+ * Returns null unless permit, nonces and DOMAIN_SEPARATOR exist and the domain
+ * can be reconstructed to match DOMAIN_SEPARATOR, so signatures will verify.
+ */
+export async function detectPermitSupport(provider: ethers.Provider, tokenAddress: string, owner: string): Promise<PermitSupport | null> {
+    const token = new ethers.Contract(tokenAddress, ERC20_PERMIT_ABI, provider)
+
+    let domainSeparator: string
+    let nonce: bigint
+    let name: string
+    try {
+        [domainSeparator, nonce, name] = await Promise.all([
+            token.DOMAIN_SEPARATOR() as Promise<string>,
+            token.nonces(owner) as Promise<bigint>,
+            token.name() as Promise<string>
+        ])
+    } catch (error) {
+        console.log('Token has no EIP-2612 nonces/DOMAIN_SEPARATOR:', error)
+        return null
+    }
+
+    if (!(await hasPermitFunction(provider, tokenAddress))) {
+        console.log('Token exposes DOMAIN_SEPARATOR but no permit function')
+        return null
+    }
+
+    const { chainId } = await provider.getNetwork()
+    for (const version of await readDomainVersions(token)) {
+        const domain = { name, version, chainId, verifyingContract: ethers.getAddress(tokenAddress) }
+        if (ethers.TypedDataEncoder.hashDomain(domain) === domainSeparator) {
+            return { token: domain.verifyingContract, domain, nonce }
+        }
+    }
+
+    console.log('⚠️ Could not reconstruct the permit domain for', tokenAddress)
+    return null
+}
+
+/**
+ * Sign an EIP-2612 permit letting spender pull value tokens until the deadline
+ */
+export async function signPermit(
+    signer: ethers.Signer,
+    support: PermitSupport,
+    spender: string,
+    value: bigint,
+    deadline = BigInt(Math.floor(Date.now() / 1000) + DEFAULT_PERMIT_TTL_SECONDS)
+): Promise<SignedPermit> {
+    const owner = await signer.getAddress()
+    const signature = ethers.Signature.from(await signer.signTypedData(support.domain, PERMIT_TYPES, {
+        owner,
+        spender,
+        value,
+        nonce: support.nonce,
+        deadline
+    }))
+
+    return { token: support.token, owner, spender, value, deadline, v: signature.v, r: signature.r, s: signature.s }
+}
+
+/**
+ * Calldata for submitting a signed permit to the token
+ */
+export function encodePermitCall(permit: SignedPermit): { to: string; data: string } {
+    return {
+        to: permit.token,
+        data: permitInterface.encodeFunctionData('permit', [
+            permit.owner,
+            permit.spender,
+            permit.value,
+            permit.deadline,
+            permit.v,
+            permit.r,
+            permit.s
+        ])
+    }
+}
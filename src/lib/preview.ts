@@ -0,0 +1,112 @@
+import { ethers } from 'ethers'
+
+import { IOFT_ABI } from './abis'
+import { decodeRecipient } from './addresses'
+import type { SendCostEstimate } from './gas'
+import type { DecodedOptions, EffectiveOptions } from './options'
+import type { MessagingFee, SendParams } from './types'
+
+const oftInterface = new ethers.Interface(IOFT_ABI)
+
+/**
+ * The exact transaction the wallet will be asked to sign
+ */
+export interface SendCall {
+    from: string
+    to: string
+    value: bigint
+    data: string
+}
+
+/**
+ * Arguments of IOFT.send(sendParam, fee, refundAddress) as decoded from calldata
+ */
+export interface DecodedSendCall {
+    sendParam: {
+        dstEid: number
+        to: string
+        amountLD: bigint
+        minAmountLD: bigint
+        extraOptions: string
+        composeMsg: string
+        oftCmd: string
+    }
+    fee: MessagingFee
+    refundAddress: string
+}
+
+/**
+ * Everything shown on the review screen before the wallet opens
+ */
+export interface SendPreview {
+    call: SendCall
+    decoded: DecodedSendCall
+    // Recipient in the destination chain's own address format
+    recipient: string
+    // Extra options carried in the calldata
+    options: DecodedOptions
+    // Enforced and extra options as the OApp will merge them, when they could be read
+    effectiveOptions?: EffectiveOptions
+    decimals: number
+    // Unset while an approval is still pending, the send cannot be estimated before it
+    gasLimit?: bigint
+    maxFeePerGas?: bigint
+    gasCost?: bigint
+    // Fee from simulating the send, set together with gasLimit
+    messagingFee?: MessagingFee
+    // L1 data cost on OP-stack and Arbitrum chains, set together with gasLimit
+    l1DataFee?: bigint
+    // While an approval is pending: its gas plus a typical send limit
+    sendCost?: SendCostEstimate
+    // msg.value plus the gas cost and L1 data fee, approvals included while they are pending
+    totalNativeCost: bigint
+}
+
+/**
+ * Decode IOFT.send calldata through the IOFT ABI
+ */
+export function decodeSendCall(data: string): DecodedSendCall {
+    const [sendParam, fee, refundAddress] = oftInterface.decodeFunctionData('send', data)
+    return {
+        sendParam: {
+            dstEid: Number(sendParam.dstEid),
+            to: sendParam.to,
+            amountLD: sendParam.amountLD,
+            minAmountLD: sendParam.minAmountLD,
+            extraOptions: sendParam.extraOptions,
+            composeMsg: sendParam.composeMsg,
+            oftCmd: sendParam.oftCmd
+        },
+        fee: { nativeFee: fee.nativeFee, lzTokenFee: fee.lzTokenFee },
+        refundAddress
+    }
+}
+
+/**
+ * Compare decoded calldata with the parameters it was built from, returning the fields that differ
+ */
+export function diffSendCall(decoded: DecodedSendCall, sendParam: SendParams, fee: MessagingFee): string[] {
+    const mismatches: string[] = []
+    const param = decoded.sendParam
+    if (param.dstEid !== sendParam.dstEid) mismatches.push('dstEid')
+    if (param.to.toLowerCase() !== sendParam.to.toLowerCase()) mismatches.push('to')
+    if (param.amountLD !== BigInt(sendParam.amountLD)) mismatches.push('amountLD')
+    if (param.minAmountLD !== BigInt(sendParam.minAmountLD)) mismatches.push('minAmountLD')
+    if (param.extraOptions.toLowerCase() !== sendParam.extraOptions.toLowerCase()) mismatches.push('extraOptions')
+    if (param.composeMsg.toLowerCase() !== sendParam.composeMsg.toLowerCase()) mismatches.push('composeMsg')
+    if (param.oftCmd.toLowerCase() !== sendParam.oftCmd.toLowerCase()) mismatches.push('oftCmd')
+    if (decoded.fee.nativeFee !== fee.nativeFee) mismatches.push('nativeFee')
+    if (decoded.fee.lzTokenFee !== fee.lzTokenFee) mismatches.push('lzTokenFee')
+    return mismatches
+}
+
+/**
+ * Recipient of a decoded send, falling back to raw bytes32 for formats we cannot render
+ */
+export function describeSendRecipient(decoded: DecodedSendCall): string {
+    try {
+        return decodeRecipient(decoded.sendParam.to, decoded.sendParam.dstEid)
+    } catch {
+        return decoded.sendParam.to
+    }
+}
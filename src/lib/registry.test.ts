@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+
+import bundledRegistry from '../../public/tokens.json?raw'
+import { findDeploymentForToken, listDeployments, parseTokenRegistry } from './registry'
+
+const ADAPTER = '0x681E68B9E70882D461f3b65e1Cfe09e1f251494D'
+const TOKEN = '0x8dF723295214Ea6f21026eeEb4382d475f146F9f'
+const OFT = '0xCc1759221c2Ef0c069514F789d730508FEA1Da96'
+
+function registryWith(...deployments: Record<string, unknown>[]) {
+    return { version: 1, tokens: [{ symbol: 'EURQ', name: 'EURQ', deployments }] }
+}
+
+const adapter = { eid: 30101, type: 'adapter', address: ADAPTER, token: TOKEN, decimals: 6, stage: 'mainnet' }
+const oft = { eid: 30109, type: 'oft', address: OFT, decimals: 6, stage: 'mainnet' }
+
+describe('parseTokenRegistry', () => {
+    it('accepts an adapter with its token and an OFT without one', () => {
+        const registry = parseTokenRegistry(registryWith(adapter, oft))
+        expect(registry.tokens[0].deployments).toEqual([adapter, { ...oft, token: undefined }])
+    })
+
+    it('checksums addresses', () => {
+        const registry = parseTokenRegistry(registryWith({ ...adapter, address: ADAPTER.toLowerCase(), token: TOKEN.toLowerCase() }))
+        expect(registry.tokens[0].deployments[0]).toMatchObject({ address: ADAPTER, token: TOKEN })
+    })
+
+    it('requires the underlying token for adapters', () => {
+        expect(() => parseTokenRegistry(registryWith({ ...adapter, token: undefined })))
+            .toThrow('tokens[0].deployments[0].token is required for adapters')
+    })
+
+    it.each([
+        ['eid', { eid: 0 }, 'eid must be a positive integer'],
+        ['type', { type: 'bridge' }, 'type must be "oft" or "adapter"'],
+        ['address', { address: '0x1234' }, 'address must be an EVM address'],
+        ['decimals', { decimals: 256 }, 'decimals must be an integer between 0 and 255'],
+        ['stage', { stage: 'testnet' }, 'stage is testnet but EID 30101 is mainnet']
+    ])('rejects an invalid %s', (_field, override, message) => {
+        expect(() => parseTokenRegistry(registryWith({ ...adapter, ...override }))).toThrow(message)
+    })
+
+    it('rejects an EID listed twice for a token', () => {
+        expect(() => parseTokenRegistry(registryWith(adapter, { ...oft, eid: 30101 }))).toThrow('30101 is listed twice')
+    })
+
+    it('rejects a wrong version', () => {
+        expect(() => parseTokenRegistry({ version: 2, tokens: [] })).toThrow('version must be 1')
+    })
+})
+
+describe('bundled tokens.json', () => {
+    const registry = parseTokenRegistry(JSON.parse(bundledRegistry))
+
+    it('gives every deployment a counterpart on another endpoint', () => {
+        for (const deployment of listDeployments(registry)) {
+            expect(deployment.counterparts.length, `${deployment.symbol} on ${deployment.eid}`).toBeGreaterThan(0)
+        }
+    })
+
+    it('finds adapters by the token the user holds and OFTs by their own address', () => {
+        expect(findDeploymentForToken(registry, 30101, TOKEN)?.address).toBe(ADAPTER)
+        expect(findDeploymentForToken(registry, 30109, OFT)?.address).toBe(OFT)
+    })
+})
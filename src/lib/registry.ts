@@ -0,0 +1,188 @@
+import { ethers } from 'ethers'
+import { endpointIdToStage } from '@layerzerolabs/lz-definitions'
+
+import { getNetworkName } from './peers'
+
+// Served from public/, override with VITE_TOKEN_REGISTRY_URL
+export const DEFAULT_TOKEN_REGISTRY_URL = '/tokens.json'
+export const TOKEN_REGISTRY_VERSION = 1
+
+export type DeploymentType = 'oft' | 'adapter'
+export type DeploymentStage = 'mainnet' | 'testnet'
+
+/**
+ * A token's OFT or OFT adapter on one endpoint
+ */
+export interface RegistryDeployment {
+    eid: number
+    type: DeploymentType
+    address: string
+    // Underlying ERC20, required for adapters; an OFT is its own token
+    token?: string
+    decimals: number
+    stage: DeploymentStage
+}
+
+export interface RegistryToken {
+    symbol: string
+    name: string
+    deployments: RegistryDeployment[]
+}
+
+export interface TokenRegistry {
+    version: number
+    tokens: RegistryToken[]
+}
+
+/**
+ * A deployment together with its token and the token's deployments on other endpoints of the same stage
+ */
+export interface TokenDeployment extends RegistryDeployment {
+    symbol: string
+    name: string
+    network: string
+    counterparts: RegistryDeployment[]
+}
+
+function fail(path: string, message: string): never {
+    throw new Error(`Invalid token registry: ${path} ${message}`)
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function readString(value: Record<string, unknown>, key: string, path: string): string {
+    const field = value[key]
+    if (typeof field !== 'string' || field.trim() === '') fail(`${path}.${key}`, 'must be a non-empty string')
+    return field.trim()
+}
+
+function readAddress(value: Record<string, unknown>, key: string, path: string): string {
+    const field = readString(value, key, path)
+    if (!ethers.isAddress(field)) fail(`${path}.${key}`, `must be an EVM address, got ${field}`)
+    return ethers.getAddress(field)
+}
+
+function parseDeployment(value: unknown, path: string): RegistryDeployment {
+    if (!isObject(value)) fail(path, 'must be an object')
+
+    const eid = value.eid
+    if (typeof eid !== 'number' || !Number.isInteger(eid) || eid <= 0) fail(`${path}.eid`, 'must be a positive integer')
+
+    const type = value.type
+    if (type !== 'oft' && type !== 'adapter') fail(`${path}.type`, 'must be "oft" or "adapter"')
+
+    const decimals = value.decimals
+    if (typeof decimals !== 'number' || !Number.isInteger(decimals) || decimals < 0 || decimals > 255) {
+        fail(`${path}.decimals`, 'must be an integer between 0 and 255')
+    }
+
+    const stage = value.stage
+    if (stage !== 'mainnet' && stage !== 'testnet') fail(`${path}.stage`, 'must be "mainnet" or "testnet"')
+
+    let eidStage: string
+    try {
+        eidStage = endpointIdToStage(eid)
+    } catch {
+        fail(`${path}.eid`, `${eid} is not a known LayerZero endpoint ID`)
+    }
+    if (eidStage !== stage) fail(`${path}.stage`, `is ${stage} but EID ${eid} is ${eidStage}`)
+
+    // Adapters are looked up by the ERC20 the user holds, so they are useless without it
+    if (type === 'adapter' && value.token === undefined) fail(`${path}.token`, 'is required for adapters')
+
+    return {
+        eid,
+        type,
+        address: readAddress(value, 'address', path),
+        token: value.token === undefined ? undefined : readAddress(value, 'token', path),
+        decimals,
+        stage
+    }
+}
+
+function parseToken(value: unknown, path: string): RegistryToken {
+    if (!isObject(value)) fail(path, 'must be an object')
+    if (!Array.isArray(value.deployments) || value.deployments.length === 0) {
+        fail(`${path}.deployments`, 'must be a non-empty array')
+    }
+
+    const deployments = value.deployments.map((deployment, index) => parseDeployment(deployment, `${path}.deployments[${index}]`))
+    const seenEids = new Set<number>()
+    deployments.forEach((deployment, index) => {
+        if (seenEids.has(deployment.eid)) fail(`${path}.deployments[${index}].eid`, `${deployment.eid} is listed twice`)
+        seenEids.add(deployment.eid)
+    })
+
+    return {
+        symbol: readString(value, 'symbol', path),
+        name: readString(value, 'name', path),
+        deployments
+    }
+}
+
+/**
+ * Validate registry JSON against the schema, throwing with the path of the first problem
+ */
+export function parseTokenRegistry(data: unknown): TokenRegistry {
+    if (!isObject(data)) fail('root', 'must be an object')
+    if (data.version !== TOKEN_REGISTRY_VERSION) fail('version', `must be ${TOKEN_REGISTRY_VERSION}`)
+    if (!Array.isArray(data.tokens)) fail('tokens', 'must be an array')
+
+    const tokens = data.tokens.map((token, index) => parseToken(token, `tokens[${index}]`))
+
+    const seenAddresses = new Map<string, string>()
+    tokens.forEach(token => token.deployments.forEach(deployment => {
+        const key = `${deployment.eid}:${deployment.address.toLowerCase()}`
+        const owner = seenAddresses.get(key)
+        if (owner) fail(`tokens.${token.symbol}`, `reuses ${deployment.address} on EID ${deployment.eid}, already listed for ${owner}`)
+        seenAddresses.set(key, token.symbol)
+    }))
+
+    return { version: TOKEN_REGISTRY_VERSION, tokens }
+}
+
+/**
+ * Fetch and validate the token registry
+ */
+export async function loadTokenRegistry(url = DEFAULT_TOKEN_REGISTRY_URL): Promise<TokenRegistry> {
+    const res = await fetch(url)
+    if (!res.ok) {
+        throw new Error(`Failed to load token registry from ${url}: ${res.status}`)
+    }
+    return parseTokenRegistry(await res.json())
+}
+
+/**
+ * Flatten the registry into deployments, optionally only those on one endpoint
+ */
+export function listDeployments(registry: TokenRegistry, eid?: number): TokenDeployment[] {
+    return registry.tokens.flatMap(token => token.deployments
+        .filter(deployment => eid === undefined || deployment.eid === eid)
+        .map(deployment => ({
+            ...deployment,
+            symbol: token.symbol,
+            name: token.name,
+            network: getNetworkName(deployment.eid),
+            counterparts: token.deployments.filter(other => other.eid !== deployment.eid && other.stage === deployment.stage)
+        })))
+}
+
+/**
+ * Look up a deployment by its OFT or adapter address
+ */
+export function findDeploymentByAddress(registry: TokenRegistry, address: string, eid?: number): TokenDeployment | null {
+    return listDeployments(registry, eid).find(deployment => deployment.address.toLowerCase() === address.toLowerCase()) ?? null
+}
+
+/**
+ * Find the OFT or adapter for a token on an endpoint, matching either the underlying token or an OFT's own address
+ */
+export function findDeploymentForToken(registry: TokenRegistry, eid: number, tokenAddress: string): TokenDeployment | null {
+    const target = tokenAddress.toLowerCase()
+    return listDeployments(registry, eid).find(deployment =>
+        deployment.token?.toLowerCase() === target ||
+        (deployment.type === 'oft' && deployment.address.toLowerCase() === target)
+    ) ?? null
+}
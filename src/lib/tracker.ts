@@ -0,0 +1,140 @@
+export const LAYERZERO_SCAN_API_URL = 'https://scan.layerzero-api.com/v1'
+export const LAYERZERO_SCAN_TESTNET_API_URL = 'https://scan-testnet.layerzero-api.com/v1'
+
+/**
+ * Lifecycle of a cross-chain message as reported by LayerZero Scan.
+ * NOT_FOUND means the message has not been indexed yet.
+ */
+export type MessageStatus =
+    | 'NOT_FOUND'
+    | 'INFLIGHT'
+    | 'CONFIRMING'
+    | 'DELIVERED'
+    | 'FAILED'
+    | 'BLOCKED'
+    | 'PAYLOAD_STORED'
+    | 'UNKNOWN'
+
+export const TERMINAL_MESSAGE_STATUSES: readonly MessageStatus[] = ['DELIVERED', 'FAILED', 'BLOCKED', 'PAYLOAD_STORED']
+
+export interface MessageStatusUpdate {
+    status: MessageStatus
+    // Raw status name from the API, useful when status is UNKNOWN
+    statusName?: string
+    statusMessage?: string
+    guid?: string
+    srcTxHash?: string
+    dstTxHash?: string
+    updatedAt: number
+}
+
+export interface MessageQuery {
+    txHash?: string
+    guid?: string
+}
+
+export interface TrackerOptions {
+    // Override the API base URL, e.g. to point at a local mock server
+    apiBaseUrl?: string
+    isTestnet?: boolean
+    intervalMs?: number
+    timeoutMs?: number
+}
+
+interface ScanMessage {
+    guid?: string
+    status?: { name?: string; message?: string }
+    source?: { tx?: { txHash?: string } }
+    destination?: { tx?: { txHash?: string } }
+}
+
+const KNOWN_STATUSES: readonly MessageStatus[] = ['INFLIGHT', 'CONFIRMING', 'DELIVERED', 'FAILED', 'BLOCKED', 'PAYLOAD_STORED']
+
+function toMessageStatus(name: string | undefined): MessageStatus {
+    if (!name) return 'UNKNOWN'
+    const upper = name.toUpperCase() as MessageStatus
+    return KNOWN_STATUSES.includes(upper) ? upper : 'UNKNOWN'
+}
+
+function resolveApiBaseUrl(options: TrackerOptions): string {
+    const base = options.apiBaseUrl ?? (options.isTestnet ? LAYERZERO_SCAN_TESTNET_API_URL : LAYERZERO_SCAN_API_URL)
+    return base.replace(/\/+$/, '')
+}
+
+/**
+ * Fetch the current status of a message from the LayerZero Scan API by tx hash or GUID
+ */
+export async function fetchMessageStatus(query: MessageQuery, options: TrackerOptions = {}): Promise<MessageStatusUpdate> {
+    const baseUrl = resolveApiBaseUrl(options)
+    const path = query.guid
+        ? `/messages/guid/${query.guid}`
+        : query.txHash
+            ? `/messages/tx/${query.txHash}`
+            : null
+    if (!path) {
+        throw new Error('A transaction hash or message GUID is required to track a message')
+    }
+
+    const res = await fetch(`${baseUrl}${path}`)
+    if (res.status === 404) {
+        return { status: 'NOT_FOUND', srcTxHash: query.txHash, guid: query.guid, updatedAt: Date.now() }
+    }
+    if (!res.ok) {
+        throw new Error(`LayerZero Scan API responded with ${res.status}`)
+    }
+
+    const body = (await res.json()) as { data?: ScanMessage[] }
+    const message = body.data?.find(m => !query.guid || m.guid?.toLowerCase() === query.guid.toLowerCase())
+    if (!message) {
+        return { status: 'NOT_FOUND', srcTxHash: query.txHash, guid: query.guid, updatedAt: Date.now() }
+    }
+
+    return {
+        status: toMessageStatus(message.status?.name),
+        statusName: message.status?.name,
+        statusMessage: message.status?.message,
+        guid: message.guid ?? query.guid,
+        srcTxHash: message.source?.tx?.txHash ?? query.txHash,
+        dstTxHash: message.destination?.tx?.txHash,
+        updatedAt: Date.now()
+    }
+}
+
+/**
+ * Poll the LayerZero Scan API until the message reaches a terminal status or the timeout expires.
+ * Transient API errors are reported through onError and polling continues.
+ * Returns a function that stops polling.
+ */
+export function trackMessage(
+    query: MessageQuery,
+    onUpdate: (update: MessageStatusUpdate) => void,
+    options: TrackerOptions & { onError?: (error: Error) => void } = {}
+): () => void {
+    const intervalMs = options.intervalMs ?? 10_000
+    const deadline = Date.now() + (options.timeoutMs ?? 60 * 60 * 1000)
+    let stopped = false
+    let timer: ReturnType<typeof setTimeout> | undefined
+
+    const poll = async () => {
+        if (stopped) return
+        try {
+            const update = await fetchMessageStatus(query, options)
+            if (stopped) return
+            onUpdate(update)
+            if (TERMINAL_MESSAGE_STATUSES.includes(update.status)) return
+        } catch (error) {
+            if (stopped) return
+            options.onError?.(error instanceof Error ? error : new Error(String(error)))
+        }
+        if (Date.now() < deadline) {
+            timer = setTimeout(poll, intervalMs)
+        }
+    }
+
+    poll()
+
+    return () => {
+        stopped = true
+        if (timer) clearTimeout(timer)
+    }
+}
@@ -0,0 +1,138 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import { OFTError, USER_CANCELLED } from './errors'
+import type { OFTClient } from './oft-client'
+import { TransferFlow } from './transfer'
+import type { TransferEvent, TransferReviewer } from './transfer'
+import type { ApprovalMethod, ApprovalPlan, EvmSendArgs } from './types'
+
+function plan(method: ApprovalMethod, batched = false): ApprovalPlan {
+    return {
+        token: '0xtoken',
+        owner: '0xowner',
+        spender: '0xspender',
+        amountLD: 1n,
+        approvalAmountLD: 1n,
+        strategy: { kind: 'exact' },
+        allowance: 0n,
+        method,
+        batched
+    }
+}
+
+const quote = { nativeFee: 10n, lzTokenFee: 5n, sendParam: { amountLD: '1' }, decimals: 6 }
+const sendCost = { gasLimit: 300_000n, approvalGasLimit: 60_000n, totalNativeCost: 400_000n }
+
+function fakeClient(overrides: Record<string, unknown> = {}) {
+    return {
+        quoteSend: vi.fn(async () => quote),
+        assertCanSend: vi.fn(async () => {}),
+        getApprovalPlan: vi.fn(async () => plan('none')),
+        getLzTokenApprovalPlan: vi.fn(async () => plan('none')),
+        getGasFeeSuggestions: vi.fn(async () => ({ eip1559: true })),
+        estimateSendCost: vi.fn(async () => sendCost),
+        getGasPricing: vi.fn(async () => ({ fees: { maxFeePerGas: 1n, maxPriorityFeePerGas: 1n }, eip1559: true })),
+        previewSend: vi.fn(async (_quote: unknown, simulate: boolean, _pricing: unknown, cost?: typeof sendCost) => (
+            { gasLimit: simulate ? 100_000n : undefined, sendCost: cost }
+        )),
+        buildApprovalCall: vi.fn(async () => ({ to: '0xtoken', data: '0x' })),
+        executeApproval: vi.fn(async (_plan: ApprovalPlan, onSubmitted: (txHash: string) => void) => {
+            onSubmitted('0xapproval')
+            return '0xapproval'
+        }),
+        simulateSend: vi.fn(async () => ({ gasLimit: 100_000n })),
+        submitSend: vi.fn(async () => ({ hash: '0xsend', wait: async () => ({}) })),
+        submitBatchedSend: vi.fn(async () => 'batch-1'),
+        waitForBatchedSend: vi.fn(async () => ({})),
+        buildSendResult: vi.fn(() => ({ txHash: '0xsend' })),
+        ...overrides
+    }
+}
+
+async function runFlow(client: ReturnType<typeof fakeClient>, args: Partial<EvmSendArgs> = {}, reviewer?: TransferReviewer) {
+    const flow = new TransferFlow(client as unknown as OFTClient, { oftAddress: '0xoft', ...args } as EvmSendArgs, reviewer)
+    const events: TransferEvent[] = []
+    flow.subscribe(event => events.push(event))
+    const result = await flow.run().catch((error: unknown) => error)
+    return { flow, events, states: events.map(event => event.state), result }
+}
+
+describe('TransferFlow', () => {
+    it('goes straight to simulation when no approval is needed', async () => {
+        const { states, flow } = await runFlow(fakeClient())
+        expect(states).toEqual(['quoting', 'simulating', 'awaitingSignature', 'submitted', 'confirmed'])
+        expect(flow.state).toBe('confirmed')
+    })
+
+    it('approves in its own transaction and reports the hash', async () => {
+        const { events, states } = await runFlow(fakeClient({ getApprovalPlan: vi.fn(async () => plan('approve')) }))
+        expect(states).toEqual(['quoting', 'awaitingApproval', 'approving', 'simulating', 'awaitingSignature', 'submitted', 'confirmed'])
+        expect(events[2]).toMatchObject({ state: 'approving', txHash: '0xapproval', asset: 'token' })
+    })
+
+    it('skips simulation when the approval is batched with the send', async () => {
+        const client = fakeClient({ getApprovalPlan: vi.fn(async () => plan('permit', true)) })
+        const { states } = await runFlow(client)
+        expect(states).toEqual(['quoting', 'awaitingApproval', 'awaitingSignature', 'submitted', 'confirmed'])
+        expect(client.simulateSend).not.toHaveBeenCalled()
+        expect(client.submitBatchedSend).toHaveBeenCalledOnce()
+    })
+
+    it('approves the lzToken before the token', async () => {
+        const client = fakeClient({
+            getApprovalPlan: vi.fn(async () => plan('approve')),
+            getLzTokenApprovalPlan: vi.fn(async () => plan('approve'))
+        })
+        const { events } = await runFlow(client, { payInLzToken: true })
+        expect(events.map(event => 'asset' in event ? `${event.state}:${event.asset}` : event.state)).toEqual([
+            'quoting',
+            'awaitingApproval:lzToken',
+            'approving:lzToken',
+            'awaitingApproval:token',
+            'approving:token',
+            'simulating',
+            'awaitingSignature',
+            'submitted',
+            'confirmed'
+        ])
+    })
+
+    it('reuses the review simulation when nothing is pending', async () => {
+        const client = fakeClient()
+        const { states } = await runFlow(client, {}, async () => true)
+        expect(states).toEqual(['quoting', 'reviewing', 'awaitingSignature', 'submitted', 'confirmed'])
+        expect(client.previewSend).toHaveBeenCalledWith(quote, true, expect.anything(), undefined)
+        expect(client.estimateSendCost).not.toHaveBeenCalled()
+        expect(client.simulateSend).not.toHaveBeenCalled()
+    })
+
+    it('does not simulate at review while the lzToken allowance is short', async () => {
+        const lzTokenPlan = plan('approve')
+        const client = fakeClient({ getLzTokenApprovalPlan: vi.fn(async () => lzTokenPlan) })
+        const { states } = await runFlow(client, { payInLzToken: true }, async () => true)
+        expect(client.estimateSendCost).toHaveBeenCalledWith(quote, undefined, undefined, expect.objectContaining({ lzTokenPlan }))
+        expect(client.previewSend).toHaveBeenCalledWith(quote, false, expect.anything(), sendCost)
+        expect(states).toEqual(['quoting', 'reviewing', 'awaitingApproval', 'approving', 'simulating', 'awaitingSignature', 'submitted', 'confirmed'])
+    })
+
+    it('fails with USER_CANCELLED when the review is declined', async () => {
+        const client = fakeClient()
+        const { events, result } = await runFlow(client, {}, async () => false)
+        expect(result).toBeInstanceOf(OFTError)
+        expect((result as OFTError).code).toBe(USER_CANCELLED)
+        expect(events.at(-1)).toMatchObject({ state: 'failed', failedIn: 'reviewing' })
+        expect(client.submitSend).not.toHaveBeenCalled()
+    })
+
+    it('reports the state a failure happened in', async () => {
+        const client = fakeClient({ simulateSend: vi.fn(async () => { throw new Error('execution reverted') }) })
+        const { events, flow } = await runFlow(client)
+        expect(events.at(-1)).toMatchObject({ state: 'failed', failedIn: 'simulating' })
+        expect(flow.state).toBe('failed')
+    })
+
+    it('runs only once', async () => {
+        const { flow } = await runFlow(fakeClient())
+        await expect(flow.run()).rejects.toThrow('Transfer already confirmed')
+    })
+})
@@ -0,0 +1,194 @@
+import type { OFTClient } from './oft-client'
+import type { ApprovalPlan, EvmSendArgs, MessagingFee, QuoteResult, SendResult } from './types'
+import type { WalletCall } from './batch'
+import { OFTError, USER_CANCELLED, toOFTError } from './errors'
+import type { SendPreview } from './preview'
+
+/**
+ * Where a transfer is. Each state is entered at most once per transfer, except
+ * the approval states which run once for the lzToken (ZRO) fee and once for the
+ * token; reviewing only happens when a reviewer is given, approval states are
+ * skipped when the allowance already covers the amount and simulating is skipped
+ * when the review already simulated the send or the approval is batched with it.
+ */
+export type TransferState =
+    | 'idle'
+    | 'quoting'
+    | 'reviewing'
+    | 'awaitingApproval'
+    | 'approving'
+    | 'simulating'
+    | 'awaitingSignature'
+    | 'submitted'
+    | 'confirmed'
+    | 'failed'
+
+// What an approval is for: the OFT adapter pulling the token, or the endpoint pulling the lzToken fee
+export type ApprovalAsset = 'token' | 'lzToken'
+
+export type TransferEvent =
+    | { state: 'quoting' }
+    // Waiting for the reviewer to confirm the decoded send before any wallet prompt
+    | { state: 'reviewing'; quote: QuoteResult; preview: SendPreview }
+    // Waiting for the user to sign a permit or confirm an approve transaction
+    | { state: 'awaitingApproval'; quote: QuoteResult; plan: ApprovalPlan; asset: ApprovalAsset }
+    | { state: 'approving'; plan: ApprovalPlan; txHash: string; asset: ApprovalAsset }
+    | { state: 'simulating'; quote: QuoteResult }
+    | { state: 'awaitingSignature'; quote: QuoteResult; batched: boolean }
+    | { state: 'submitted'; txHash?: string; batchId?: string }
+    | { state: 'confirmed'; result: SendResult }
+    | { state: 'failed'; error: OFTError; failedIn: TransferState }
+
+export type TransferListener = (event: TransferEvent) => void
+
+// Resolves true to go ahead with the previewed send, false to cancel the transfer
+export type TransferReviewer = (preview: SendPreview) => Promise<boolean>
+
+const TRANSITIONS: Record<TransferState, readonly TransferState[]> = {
+    idle: ['quoting'],
+    quoting: ['reviewing', 'awaitingApproval', 'simulating'],
+    reviewing: ['awaitingApproval', 'simulating', 'awaitingSignature'],
+    awaitingApproval: ['approving', 'awaitingSignature'],
+    // The lzToken approval goes first, the token approval may follow
+    approving: ['awaitingApproval', 'simulating'],
+    simulating: ['awaitingSignature'],
+    awaitingSignature: ['submitted'],
+    submitted: ['confirmed'],
+    confirmed: [],
+    failed: []
+}
+
+export const TERMINAL_TRANSFER_STATES: readonly TransferState[] = ['confirmed', 'failed']
+
+/**
+ * One cross-chain transfer driven through quote, approval, simulation, signature and
+ * confirmation, each step run exactly once. Subscribe before calling run() to render progress.
+ */
+export class TransferFlow {
+    private readonly client: OFTClient
+    private readonly args: EvmSendArgs
+    private readonly reviewer?: TransferReviewer
+    private readonly listeners = new Set<TransferListener>()
+    private current: TransferState = 'idle'
+
+    constructor(client: OFTClient, args: EvmSendArgs, reviewer?: TransferReviewer) {
+        this.client = client
+        this.args = args
+        this.reviewer = reviewer
+    }
+
+    get state(): TransferState {
+        return this.current
+    }
+
+    /**
+     * Listen for state changes, returns a function that stops listening
+     */
+    subscribe(listener: TransferListener): () => void {
+        this.listeners.add(listener)
+        return () => {
+            this.listeners.delete(listener)
+        }
+    }
+
+    private emit(event: TransferEvent): void {
+        if (event.state !== 'failed' && !TRANSITIONS[this.current].includes(event.state)) {
+            throw new Error(`Invalid transfer transition from ${this.current} to ${event.state}`)
+        }
+        this.current = event.state
+        this.listeners.forEach(listener => listener(event))
+    }
+
+    /**
+     * Run the transfer to completion. A flow runs once; create a new one to retry.
+     */
+    async run(): Promise<SendResult> {
+        if (this.current !== 'idle') {
+            throw new Error(`Transfer already ${this.current}`)
+        }
+
+        try {
+            this.emit({ state: 'quoting' })
+            const quote = await this.client.quoteSend(this.args)
+            await this.client.assertCanSend(this.args, quote)
+
+            const amountLD = BigInt(quote.sendParam.amountLD)
+            const plan = await this.client.getApprovalPlan(this.args.oftAddress, amountLD, this.args.approvalStrategy, quote.oftConfig)
+            const needsApproval = plan !== null && plan.method !== 'none'
+            // The endpoint pulls the lzToken fee itself, so it needs its own allowance
+            const lzTokenPlan = this.args.payInLzToken
+                ? await this.client.getLzTokenApprovalPlan(this.args.oftAddress, BigInt(quote.lzTokenFee), quote.lzTokenStatus)
+                : null
+            // Fees are fixed once so the review, the approval and the send are priced alike
+            const suggestions = await this.client.getGasFeeSuggestions()
+            const pricing = await this.client.getGasPricing(this.args.gasSettings, suggestions)
+
+            let messagingFee: MessagingFee | undefined
+            let gasLimit: bigint | undefined
+            if (this.reviewer) {
+                // The send can only be simulated once the token and lzToken allowances are in place
+                const needsLzTokenApproval = lzTokenPlan !== null && lzTokenPlan.method !== 'none'
+                const simulate = !needsApproval && !needsLzTokenApproval
+                // Until then the review shows the approvals' gas with a typical send limit
+                const sendCost = simulate
+                    ? undefined
+                    : await this.client.estimateSendCost(quote, this.args.approvalStrategy, this.args.gasSettings, { approvalPlan: plan, lzTokenPlan, suggestions })
+                const preview = await this.client.previewSend(quote, simulate, pricing, sendCost)
+                this.emit({ state: 'reviewing', quote, preview })
+                if (!await this.reviewer(preview)) {
+                    throw new OFTError(USER_CANCELLED, 'Transfer cancelled at review', 'Adjust the transfer and send again.')
+                }
+                gasLimit = preview.gasLimit
+                messagingFee = preview.messagingFee
+            }
+
+            // Never batched, so it goes before a token approval that may ride along with the send
+            if (lzTokenPlan && lzTokenPlan.method !== 'none') {
+                this.emit({ state: 'awaitingApproval', quote, plan: lzTokenPlan, asset: 'lzToken' })
+                await this.client.executeApproval(lzTokenPlan, txHash => this.emit({ state: 'approving', plan: lzTokenPlan, txHash, asset: 'lzToken' }), pricing)
+            }
+
+            let batchedApproval: WalletCall | null = null
+            if (needsApproval) {
+                this.emit({ state: 'awaitingApproval', quote, plan, asset: 'token' })
+                if (plan.batched) {
+                    // Only a permit signature is asked for here, the approval itself goes out with the send
+                    batchedApproval = await this.client.buildApprovalCall(plan)
+                } else {
+                    await this.client.executeApproval(plan, txHash => this.emit({ state: 'approving', plan, txHash, asset: 'token' }), pricing)
+                }
+            }
+
+            if (!batchedApproval && gasLimit === undefined) {
+                this.emit({ state: 'simulating', quote })
+                const simulation = await this.client.simulateSend(quote)
+                gasLimit = simulation.gasLimit
+                messagingFee = simulation.messagingFee
+            }
+
+            this.emit({ state: 'awaitingSignature', quote, batched: batchedApproval !== null })
+            let receipt
+            if (batchedApproval) {
+                const batchId = await this.client.submitBatchedSend(batchedApproval, quote)
+                this.emit({ state: 'submitted', batchId })
+                receipt = await this.client.waitForBatchedSend(batchId)
+            } else {
+                const tx = await this.client.submitSend(quote, gasLimit, pricing)
+                this.emit({ state: 'submitted', txHash: tx.hash })
+                receipt = await tx.wait()
+            }
+
+            const result = this.client.buildSendResult(this.args, quote, receipt, {
+                messagingFee,
+                approval: needsApproval ? { method: plan.method, batched: plan.batched } : undefined
+            })
+            this.emit({ state: 'confirmed', result })
+            return result
+        } catch (error) {
+            const failure = toOFTError(error)
+            const failedIn = this.current
+            this.emit({ state: 'failed', error: failure, failedIn })
+            throw failure
+        }
+    }
+}
@@ -1,8 +1,42 @@
-import type { BigNumberish } from 'ethers'
+import type { AbstractSigner, BigNumberish, Provider } from 'ethers'
+import type { AmountAnalysis } from './amounts'
+import type { EffectiveOptions } from './options'
+import type { PermitSupport } from './permit'
+import type { ApprovalStrategy } from './allowances'
+import type { GasFeeSuggestions, GasSettings } from './gas'
+
+export interface MessagingFee {
+    nativeFee: bigint
+    lzTokenFee: bigint
+}
+
+/**
+ * Message details recovered from the OFTSent and PacketSent logs of a send
+ */
+export interface SentMessage {
+    guid: string
+    nonce?: bigint
+    srcEid?: number
+    dstEid: number
+    fromAddress: string
+    receiver?: string
+    amountSentLD: bigint
+    amountReceivedLD: bigint
+}
 
 export interface SendResult {
     txHash: string
     scanLink: string
+    srcEid: number
+    oftAddress: string
+    decimals: number
+    message?: SentMessage
+    messagingFee?: MessagingFee
+    gasFee?: bigint
+    minAmountLD?: bigint
+    slippageBps?: number
+    // How the allowance was granted, unset when none was needed
+    approval?: { method: ApprovalMethod; batched: boolean }
 }
 
 export interface EvmSendArgs {
@@ -11,11 +45,27 @@ export interface EvmSendArgs {
     amount: string
     to: string
     oftAddress: string
+    // Absolute minimum to receive, takes precedence over slippageBps
     minAmount?: string
+    // Slippage tolerance in basis points applied to the expected received amount
+    slippageBps?: number
     extraLzReceiveOptions?: string[]
     extraLzComposeOptions?: string[]
     extraNativeDropOptions?: string[]
+    // Ask the executor to deliver messages from this sender in nonce order
+    orderedExecution?: boolean
+    // ABI-encoded payload for the destination composer, see encodeComposePayload
     composeMsg?: string
+    // Pay the LayerZero fee in the endpoint's lzToken (ZRO) instead of native gas
+    payInLzToken?: boolean
+    // Send only the dust-free part of amount instead of leaving dust to the OFT's rounding
+    roundDownDust?: boolean
+    // How much to approve when the adapter's allowance is short, exact by default
+    approvalStrategy?: ApprovalStrategy
+    // Solana destinations: add token account rent to the lzReceive value for recipients without one
+    includeSolanaRent?: boolean
+    // Fee preset or custom EIP-1559 fees for the approval and send transactions, normal by default
+    gasSettings?: GasSettings
 }
 
 export interface TokenInfo {
@@ -25,10 +75,115 @@ export interface TokenInfo {
     address: string
 }
 
+export interface OFTLimit {
+    minAmountLD: bigint
+    maxAmountLD: bigint
+}
+
+export interface OFTFeeDetail {
+    feeAmountLD: bigint
+    description: string
+}
+
+export interface OFTReceipt {
+    amountSentLD: bigint
+    amountReceivedLD: bigint
+}
+
+/**
+ * Result of IOFT.quoteOFT, or limits found by probing quoteSend when the OFT lacks quoteOFT
+ */
+export interface OFTQuote {
+    limit: OFTLimit
+    feeDetails: OFTFeeDetail[]
+    receipt?: OFTReceipt
+    source: 'quoteOFT' | 'probe'
+}
+
+/**
+ * The endpoint's lzToken (ZRO) and the holder's balance/allowance towards the endpoint
+ */
+export interface LzTokenStatus {
+    endpoint: string
+    // null when the endpoint has no lzToken configured
+    lzToken: string | null
+    symbol?: string
+    balance?: bigint
+    allowance?: bigint
+}
+
+/**
+ * Both ways of paying the same message, for side-by-side comparison
+ */
+export interface FeeOptions {
+    native: MessagingFee
+    // Absent when the endpoint or pathway does not accept lzToken payment
+    lzToken?: MessagingFee
+}
+
+/**
+ * Recipient as encoded for the destination chain
+ */
+export interface RecipientInfo {
+    chainType: string
+    bytes32: string
+    // Extra lzReceive value the executor needs for Solana token account rent, in lamports
+    solanaRentLamports?: bigint
+    solanaRentIncluded?: boolean
+}
+
 export interface QuoteResult {
     nativeFee: BigNumberish
     lzTokenFee: BigNumberish
     tokenInfo?: TokenInfo
+    oftQuote?: OFTQuote
+    feeOptions?: FeeOptions
+    lzTokenStatus?: LzTokenStatus
+    amountAnalysis?: AmountAnalysis
+    minAmountLD: bigint
+    recipient?: RecipientInfo
+    effectiveOptions?: EffectiveOptions
+    // Tolerance minAmountLD was derived from, unset when an explicit minAmount was given
+    slippageBps?: number
+    // Sender the destination composer sees as composeFrom, set when a compose message is quoted with a signer
+    composeFrom?: string
+    oftAddress: string
+    // Read once at quote time and reused by validation and approval planning
+    oftConfig: OFTConfig
+    // Exact send() parameters the fees were quoted for, minAmountLD included
+    sendParam: SendParams
+    decimals: number
+}
+
+export type ApprovalMethod = 'none' | 'permit' | 'approve'
+
+/**
+ * How an adapter's allowance will be granted for a send
+ */
+export interface ApprovalPlan {
+    token: string
+    owner: string
+    spender: string
+    // What the send needs
+    amountLD: bigint
+    // What will be approved under the strategy, at least amountLD
+    approvalAmountLD: bigint
+    strategy: ApprovalStrategy
+    allowance: bigint
+    // none when the allowance already covers amountLD
+    method: ApprovalMethod
+    // Approval and send go through one atomic wallet_sendCalls batch
+    batched: boolean
+    permit?: PermitSupport
+}
+
+/**
+ * Plans and fee suggestions a caller already holds, so estimateSendCost does not read them again
+ */
+export interface KnownSendCostInputs {
+    approvalPlan?: ApprovalPlan | null
+    lzTokenPlan?: ApprovalPlan | null
+    suggestions?: GasFeeSuggestions
 }
 
 export interface OFTConfig {
@@ -36,6 +191,9 @@ export interface OFTConfig {
     underlyingToken: string
     decimals: number
     approvalRequired: boolean
+    sharedDecimals?: number
+    // 10^(decimals - sharedDecimals); amounts are rounded down to a multiple of it
+    decimalConversionRate?: bigint
 }
 
 export interface SendParams {
@@ -48,13 +206,33 @@ export interface SendParams {
     oftCmd: string
 }
 
-export interface MetaMaskProvider {
+export interface Eip1193Provider {
     request: (args: { method: string; params?: unknown[] }) => Promise<unknown>
+    on?: (eventName: string, handler: (params: unknown) => void) => void
+    removeListener?: (eventName: string, handler: (params: unknown) => void) => void
+}
+
+export interface MetaMaskProvider extends Eip1193Provider {
     on: (eventName: string, handler: (params: unknown) => void) => void
     removeListener: (eventName: string, handler: (params: unknown) => void) => void
     isMetaMask?: boolean
 }
 
+/**
+ * Explicit ethers backend: a signer (e.g. a private-key Wallet) and/or the
+ * provider used for reads. When only a signer is given its own provider is used;
+ * without a signer the client is read-only.
+ */
+export interface EthersBackend {
+    signer?: AbstractSigner
+    provider?: Provider
+}
+
+/**
+ * Anything OFTClient can run on: an injected EIP-1193 wallet or an ethers signer/provider pair
+ */
+export type OFTClientBackend = Eip1193Provider | EthersBackend
+
 export interface NetworkConfig {
     chainId: string
     chainName: string
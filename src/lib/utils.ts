@@ -1,6 +1,6 @@
 import { endpointIdToNetwork } from '@layerzerolabs/lz-definitions'
-import { Options } from '@layerzerolabs/lz-v2-utilities'
-import type { MetaMaskProvider, NetworkConfig } from './types'
+import { decodeOptions, describeOption } from './options'
+import type { Eip1193Provider, MetaMaskProvider, NetworkConfig } from './types'
 
 // Extend Window interface to include ethereum
 declare global {
@@ -36,23 +36,13 @@ export async function getBlockExplorerLink(srcEid: number, txHash: string): Prom
 }
 
 /**
- * Format bigint for display
- */
-function formatBigIntForDisplay(n: bigint) {
-    return n.toLocaleString().replace(/,/g, '_')
-}
-
-/**
- * Decode LayerZero receive options
+ * Describe every option in a LayerZero options blob
  */
 export function decodeLzReceiveOptions(hex: string): string {
     try {
         if (!hex || hex === '0x') return 'No options set'
-        const options = Options.fromOptions(hex)
-        const lzReceiveOpt = options.decodeExecutorLzReceiveOption()
-        return lzReceiveOpt
-            ? `gas: ${formatBigIntForDisplay(lzReceiveOpt.gas)} , value: ${formatBigIntForDisplay(lzReceiveOpt.value)} wei`
-            : 'No executor options'
+        const { entries } = decodeOptions(hex)
+        return entries.length > 0 ? entries.map(describeOption).join('; ') : 'No options set'
     } catch {
         return `Invalid options (${hex.slice(0, 12)}...)`
     }
@@ -76,10 +66,9 @@ export function getMetaMaskProvider(): MetaMaskProvider {
 }
 
 /**
- * Request MetaMask account access
+ * Request account access (defaults to window.ethereum)
  */
-export async function requestMetaMaskAccounts(): Promise<string[]> {
-    const provider = getMetaMaskProvider()
+export async function requestMetaMaskAccounts(provider: Eip1193Provider = getMetaMaskProvider()): Promise<string[]> {
     try {
         const accounts = await provider.request({ method: 'eth_requestAccounts' }) as string[]
         return accounts
@@ -91,8 +80,7 @@ export async function requestMetaMaskAccounts(): Promise<string[]> {
 /**
  * Get current MetaMask account
  */
-export async function getCurrentAccount(): Promise<string | null> {
-    const provider = getMetaMaskProvider()
+export async function getCurrentAccount(provider: Eip1193Provider = getMetaMaskProvider()): Promise<string | null> {
     try {
         const accounts = await provider.request({ method: 'eth_accounts' }) as string[]
         return accounts[0] || null
@@ -104,8 +92,7 @@ export async function getCurrentAccount(): Promise<string | null> {
 /**
  * Get current chain ID
  */
-export async function getCurrentChainId(): Promise<string> {
-    const provider = getMetaMaskProvider()
+export async function getCurrentChainId(provider: Eip1193Provider = getMetaMaskProvider()): Promise<string> {
     try {
         const chainId = await provider.request({ method: 'eth_chainId' }) as string
         return chainId
@@ -117,8 +104,7 @@ export async function getCurrentChainId(): Promise<string> {
 /**
  * Switch network in MetaMask
  */
-export async function switchNetwork(chainId: string): Promise<void> {
-    const provider = getMetaMaskProvider()
+export async function switchNetwork(chainId: string, provider: Eip1193Provider = getMetaMaskProvider()): Promise<void> {
     try {
         await provider.request({
             method: 'wallet_switchEthereumChain',
@@ -135,8 +121,7 @@ export async function switchNetwork(chainId: string): Promise<void> {
 /**
  * Add network to MetaMask
  */
-export async function addNetwork(networkConfig: NetworkConfig): Promise<void> {
-    const provider = getMetaMaskProvider()
+export async function addNetwork(networkConfig: NetworkConfig, provider: Eip1193Provider = getMetaMaskProvider()): Promise<void> {
     try {
         await provider.request({
             method: 'wallet_addEthereumChain',
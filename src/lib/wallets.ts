@@ -0,0 +1,76 @@
+import type { Eip1193Provider } from './types'
+
+export interface WalletInfo {
+    uuid: string
+    name: string
+    icon: string
+    rdns: string
+}
+
+export interface WalletDetail {
+    info: WalletInfo
+    provider: Eip1193Provider
+}
+
+interface AnnounceProviderEvent extends Event {
+    detail: WalletDetail
+}
+
+// rdns used for the legacy window.ethereum fallback when no wallet announces itself
+export const LEGACY_INJECTED_RDNS = 'injected'
+
+/**
+ * Discover injected wallets through EIP-6963 announce events.
+ * Calls onChange with the full, de-duplicated wallet list every time a new wallet
+ * announces itself. Falls back to window.ethereum when nothing is announced.
+ * Returns a function that stops listening.
+ */
+export function discoverWallets(onChange: (wallets: WalletDetail[]) => void): () => void {
+    if (typeof window === 'undefined') {
+        onChange([])
+        return () => {}
+    }
+
+    const wallets = new Map<string, WalletDetail>()
+
+    const handleAnnounce = (event: Event) => {
+        const { detail } = event as AnnounceProviderEvent
+        if (!detail?.info?.uuid || typeof detail.provider?.request !== 'function') return
+        if (wallets.has(detail.info.uuid)) return
+
+        wallets.set(detail.info.uuid, detail)
+        onChange([...wallets.values()])
+    }
+
+    window.addEventListener('eip6963:announceProvider', handleAnnounce)
+    window.dispatchEvent(new Event('eip6963:requestProvider'))
+
+    // Wallets without EIP-6963 support only expose window.ethereum
+    const fallbackTimer = window.setTimeout(() => {
+        if (wallets.size === 0 && window.ethereum) {
+            wallets.set(LEGACY_INJECTED_RDNS, {
+                info: {
+                    uuid: LEGACY_INJECTED_RDNS,
+                    name: window.ethereum.isMetaMask ? 'MetaMask' : 'Browser Wallet',
+                    icon: '',
+                    rdns: LEGACY_INJECTED_RDNS
+                },
+                provider: window.ethereum
+            })
+            onChange([...wallets.values()])
+        }
+    }, 500)
+
+    return () => {
+        window.clearTimeout(fallbackTimer)
+        window.removeEventListener('eip6963:announceProvider', handleAnnounce)
+    }
+}
+
+/**
+ * Find a discovered wallet by its reverse-DNS identifier
+ */
+export function findWalletByRdns(wallets: WalletDetail[], rdns: string | null): WalletDetail | undefined {
+    if (!rdns) return
+    return wallets.find(wallet => wallet.info.rdns === rdns)
+}
@@ -1 +1,10 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+    // JSON object of RPC URLs keyed by LayerZero EID, used for read-only mode
+    readonly VITE_RPC_URLS?: string
+    // LayerZero Scan API base URL, e.g. http://localhost:4000/v1 for a mock server
+    readonly VITE_LZ_SCAN_API_URL?: string
+    // URL of the token registry JSON, defaults to /tokens.json from public/
+    readonly VITE_TOKEN_REGISTRY_URL?: string
+}